@@ -0,0 +1,144 @@
+// Append-only audit log of configuration changes made through /config
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Client, EmbedBuilder } from 'discord.js';
+import { Env, getEnvColor } from './environments.js';
+import { getStorageDir } from './storage/index.js';
+
+export type AuditSource = 'edit' | 'import' | 'promote' | 'rollback' | 'schedule';
+
+export interface AuditEntry {
+    id: number;
+    timestamp: string;
+    userId: string;
+    userTag: string;
+    approvedBy?: string;
+    env: Env;
+    key: string;
+    oldValue: unknown;
+    newValue: unknown;
+    source: AuditSource;
+    /** What the backend returned for the update */
+    response: unknown;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'timestamp'>;
+
+// Entries are cached after the first read; the file is only ever appended to
+let cache: AuditEntry[] | null = null;
+let writing: Promise<void> = Promise.resolve();
+
+function getAuditPath(): string {
+    return path.join(getStorageDir(), 'config-audit.jsonl');
+}
+
+async function load(): Promise<AuditEntry[]> {
+    if (cache) return cache;
+
+    let raw = '';
+    try {
+        raw = await fs.readFile(getAuditPath(), 'utf8');
+    } catch (err: any) {
+        if (err.code !== 'ENOENT') throw err;
+    }
+
+    cache = raw
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as AuditEntry];
+            } catch {
+                console.error(`Skipping corrupt audit line: ${line}`);
+                return [];
+            }
+        });
+    return cache;
+}
+
+/**
+ * Append entries to the log. Throws if they couldn't be written; nothing is cached then, and
+ * later appends are unaffected.
+ */
+export async function appendAuditEntries(newEntries: NewAuditEntry[]): Promise<AuditEntry[]> {
+    // IDs are assigned in the write chain so they follow the order entries reach the file
+    const append = writing.then(async () => {
+        const entries = await load();
+        let nextId = entries.length > 0 ? entries[entries.length - 1].id + 1 : 1;
+        const timestamp = new Date().toISOString();
+        const created = newEntries.map(entry => ({ id: nextId++, timestamp, ...entry }));
+
+        const lines = created.map(entry => JSON.stringify(entry) + '\n').join('');
+        await fs.mkdir(path.dirname(getAuditPath()), { recursive: true });
+        await fs.appendFile(getAuditPath(), lines);
+
+        // Cached only once written, so the cache never holds entries or IDs the file doesn't
+        entries.push(...created);
+        return created;
+    });
+    // The failure belongs to this caller; the chain itself keeps going
+    writing = append.then(() => undefined, () => undefined);
+    return append;
+}
+
+export async function getAuditEntry(id: number): Promise<AuditEntry | undefined> {
+    return (await load()).find(entry => entry.id === id);
+}
+
+/** Newest first */
+export async function getAuditHistory(key: string, env?: Env, limit: number = 10): Promise<AuditEntry[]> {
+    return (await load())
+        .filter(entry => entry.key === key && (!env || entry.env === env))
+        .slice(-limit)
+        .reverse();
+}
+
+/** Entries for `env` recorded at or after `since` (an ISO timestamp), oldest first */
+export async function getAuditEntriesSince(env: Env, since: string): Promise<AuditEntry[]> {
+    return (await load()).filter(entry => entry.env === env && entry.timestamp >= since);
+}
+
+/** Post entries to CONFIG_AUDIT_CHANNEL_ID, if configured. Failures are logged, never thrown. */
+export async function postAuditEntries(client: Client, entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const [first] = entries;
+    const embed = new EmbedBuilder()
+        .setTitle(`Config ${first.source}: ${first.env}`)
+        .setColor(getEnvColor(first.env))
+        .setDescription(entries
+            .map(entry => `\`#${entry.id}\` \`${entry.key}\`: \`${formatAuditValue(entry.oldValue)}\` → \`${formatAuditValue(entry.newValue)}\``)
+            .join('\n')
+            .slice(0, 4000))
+        .addFields({ name: 'By', value: `<@${first.userId}>`, inline: true })
+        .setTimestamp(new Date(first.timestamp));
+
+    if (first.approvedBy) {
+        embed.addFields({ name: 'Approved by', value: `<@${first.approvedBy}>`, inline: true });
+    }
+
+    await postAuditNotice(client, embed);
+}
+
+/** Post any embed to CONFIG_AUDIT_CHANNEL_ID, if configured. Failures are logged, never thrown. */
+export async function postAuditNotice(client: Client, embed: EmbedBuilder): Promise<void> {
+    const channelId = process.env.CONFIG_AUDIT_CHANNEL_ID;
+    if (!channelId) return;
+
+    try {
+        const channel = await client.channels.fetch(channelId);
+        if (!channel?.isSendable()) {
+            console.error(`Audit channel ${channelId} is not a text channel the bot can send to.`);
+            return;
+        }
+
+        await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
+    } catch (error) {
+        console.error('Failed to post to audit channel:', error);
+    }
+}
+
+export function formatAuditValue(value: unknown): string {
+    return value === undefined ? 'unset' : String(value);
+}
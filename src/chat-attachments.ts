@@ -0,0 +1,84 @@
+// Turning Discord attachments into parts the chat model can read: images inline, text files as text
+
+import { Attachment } from 'discord.js';
+import { InlineDataPart, TextPart } from '@google/generative-ai';
+import { downloadWithLimits, normalizeImage } from './reference-images.js';
+
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml', 'application/javascript'];
+// Discord often sends code and logs without a content type, so the extension decides
+const TEXT_EXTENSIONS = new Set([
+    'txt', 'log', 'md', 'json', 'csv', 'tsv', 'yaml', 'yml', 'xml', 'toml', 'ini', 'env',
+    'js', 'ts', 'py', 'java', 'cs', 'go', 'rs', 'rb', 'php', 'sh', 'sql', 'html', 'css', 'lua'
+]);
+
+const MAX_ATTACHMENTS = Number(process.env.CHAT_MAX_ATTACHMENTS ?? 5);
+const MAX_IMAGE_BYTES = Number(process.env.CHAT_MAX_IMAGE_BYTES ?? 8 * 1024 * 1024);
+// Longer files are truncated, keeping the start (headers, first errors) which usually matters most
+const MAX_TEXT_FILE_CHARS = Number(process.env.CHAT_MAX_TEXT_FILE_CHARS ?? 30_000);
+const MAX_TEXT_FILE_BYTES = 5 * 1024 * 1024;
+
+export type AttachmentPart = TextPart | InlineDataPart;
+
+export interface ReadAttachments {
+    parts: AttachmentPart[];
+    /** Human readable reasons for attachments that were left out */
+    skipped: string[];
+}
+
+type AttachmentKind = 'image' | 'text' | null;
+
+function classify(attachment: Attachment): AttachmentKind {
+    const contentType = attachment.contentType?.split(';')[0].trim().toLowerCase() ?? '';
+    // Images in other formats (GIF, BMP, ...) are converted when read
+    if (contentType.startsWith('image/')) return 'image';
+    if (contentType.startsWith('text/') || TEXT_TYPES.includes(contentType)) return 'text';
+
+    const extension = attachment.name.split('.').pop()?.toLowerCase() ?? '';
+    return attachment.name.includes('.') && TEXT_EXTENSIONS.has(extension) ? 'text' : null;
+}
+
+async function readAttachment(attachment: Attachment, kind: 'image' | 'text'): Promise<AttachmentPart> {
+    if (kind === 'image') {
+        return { inlineData: await normalizeImage(await downloadWithLimits(attachment.url, MAX_IMAGE_BYTES)) };
+    }
+
+    let text = (await downloadWithLimits(attachment.url, MAX_TEXT_FILE_BYTES)).toString('utf8');
+    const truncated = text.length > MAX_TEXT_FILE_CHARS;
+    if (truncated) text = text.slice(0, MAX_TEXT_FILE_CHARS);
+    const note = truncated ? `\n[truncated after ${MAX_TEXT_FILE_CHARS} characters]` : '';
+    return { text: `Attached file \`${attachment.name}\`:\n\`\`\`\n${text}\n\`\`\`${note}` };
+}
+
+/**
+ * Download the attachments the chat model can use. Unsupported, oversized or failed
+ * attachments are skipped with a reason rather than failing the whole message.
+ */
+export async function readChatAttachments(attachments: Iterable<Attachment>): Promise<ReadAttachments> {
+    const skipped: string[] = [];
+    const usable: [Attachment, 'image' | 'text'][] = [];
+
+    for (const attachment of attachments) {
+        const kind = classify(attachment);
+        if (!kind) {
+            skipped.push(`\`${attachment.name}\` isn't an image or text file`);
+        } else if (kind === 'image' && attachment.size > MAX_IMAGE_BYTES) {
+            skipped.push(`\`${attachment.name}\` is larger than ${Math.round(MAX_IMAGE_BYTES / 1024 / 1024)} MB`);
+        } else if (usable.length >= MAX_ATTACHMENTS) {
+            skipped.push(`\`${attachment.name}\` is over the limit of ${MAX_ATTACHMENTS} files per message`);
+        } else {
+            usable.push([attachment, kind]);
+        }
+    }
+
+    const results = await Promise.all(usable.map(async ([attachment, kind]) => {
+        try {
+            return await readAttachment(attachment, kind);
+        } catch (err: any) {
+            console.error(`Failed to download attachment ${attachment.name}: ${err.message}`);
+            skipped.push(`\`${attachment.name}\` couldn't be used (${err?.name === 'TimeoutError' ? 'timed out' : err.message})`);
+            return null;
+        }
+    }));
+
+    return { parts: results.filter(part => part !== null), skipped };
+}
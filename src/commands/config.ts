@@ -1,4 +1,3 @@
-
 import { 
     SlashCommandBuilder, 
     ChatInputCommandInteraction, 
@@ -7,13 +6,79 @@ import {
     ActionRowBuilder, 
     ButtonBuilder, 
     ButtonStyle, 
-    ComponentType
+    ComponentType,
+    AttachmentBuilder,
+    ButtonInteraction,
+    PermissionFlagsBits
 } from 'discord.js';
-import { CONFIG_DEFAULTS, ConfigKey, fetchConfig, updateConfig, Env } from '../config-service.js';
+import { CONFIG_DEFAULTS, ConfigKey, fetchConfig, Env } from '../config-service.js';
+import { getEnvChoices, getEnvColor, getEnvironmentNames, getEnvironments, isProtectedEnv } from '../environments.js';
+import { AuditSource, formatAuditValue, getAuditEntry, getAuditHistory } from '../audit-log.js';
+import { applyConfigChanges } from '../config-changes.js';
+import { 
+    MAX_SCHEDULE_AHEAD_MS, 
+    cancelSchedule, 
+    createSchedule, 
+    getSchedule, 
+    listSchedules, 
+    parseDuration, 
+    parseScheduleTime 
+} from '../config-scheduler.js';
+import { 
+    CONFIG_SCHEMA, 
+    describeKey, 
+    formatConfigValue, 
+    isConfigKey, 
+    parseConfigValue, 
+    validateUpdates, 
+    validateValue 
+} from '../config-schema.js';
+import { computeDrift, formatDrift, getLatestSnapshot } from '../config-drift.js';
+import { 
+    ConfigAction, 
+    checkConfigAccess, 
+    getAccessSubject, 
+    logDeniedAttempt 
+} from '../config-permissions.js';
+
+type ConfigUpdates = Partial<Record<ConfigKey, unknown>>;
+
+const ENV_CHOICES = getEnvChoices();
+const ENV_HINT = `<${getEnvironmentNames().join('|')}>`;
+
+const MAX_IMPORT_BYTES = 256 * 1024;
+
+// Confirmation windows: a second approver usually needs longer to show up than the requester
+const CONFIRM_TIMEOUT_MS = 30_000;
+const APPROVAL_TIMEOUT_MS = 10 * 60_000;
+
+// Permission each subcommand needs in the environment(s) it touches
+const SUBCOMMAND_ACTIONS: Record<string, ConfigAction> = {
+    view: 'view',
+    diff: 'view',
+    export: 'view',
+    drift: 'view',
+    history: 'view',
+    schedules: 'view',
+    edit: 'edit',
+    import: 'edit',
+    schedule: 'edit',
+    promote: 'promote',
+    rollback: 'rollback'
+};
+
+interface ConfirmOptions {
+    /** Recorded in the audit log */
+    source: AuditSource;
+    /** Require a different user with an approver role to confirm */
+    requireApproval?: boolean;
+}
 
 export const data = new SlashCommandBuilder()
     .setName('config')
     .setDescription('Manage configuration')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false)
     .addSubcommand(subcommand =>
         subcommand
             .setName('view')
@@ -22,10 +87,7 @@ export const data = new SlashCommandBuilder()
                 option.setName('env')
                     .setDescription('Environment to view')
                     .setRequired(true)
-                    .addChoices(
-                        { name: 'Dev', value: 'Dev' },
-                        { name: 'Prod', value: 'Prod' }
-                    )
+                    .addChoices(...ENV_CHOICES)
             )
     )
     .addSubcommand(subcommand =>
@@ -36,10 +98,7 @@ export const data = new SlashCommandBuilder()
                 option.setName('env')
                     .setDescription('Environment to edit')
                     .setRequired(true)
-                    .addChoices(
-                        { name: 'Dev', value: 'Dev' },
-                        { name: 'Prod', value: 'Prod' }
-                    )
+                    .addChoices(...ENV_CHOICES)
             )
             .addStringOption(option =>
                 option.setName('key')
@@ -52,25 +111,222 @@ export const data = new SlashCommandBuilder()
                     .setDescription('New value')
                     .setRequired(true)
             )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('diff')
+            .setDescription('Show keys that differ between two environments')
+            .addStringOption(option =>
+                option.setName('env')
+                    .setDescription('First environment')
+                    .setRequired(true)
+                    .addChoices(...ENV_CHOICES)
+            )
+            .addStringOption(option =>
+                option.setName('env2')
+                    .setDescription('Second environment')
+                    .setRequired(true)
+                    .addChoices(...ENV_CHOICES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('export')
+            .setDescription('Download the configuration as JSON')
+            .addStringOption(option =>
+                option.setName('env')
+                    .setDescription('Environment to export')
+                    .setRequired(true)
+                    .addChoices(...ENV_CHOICES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('import')
+            .setDescription('Apply several values at once from a JSON file')
+            .addStringOption(option =>
+                option.setName('env')
+                    .setDescription('Environment to update')
+                    .setRequired(true)
+                    .addChoices(...ENV_CHOICES)
+            )
+            .addAttachmentOption(option =>
+                option.setName('file')
+                    .setDescription('JSON object of key/value pairs (or a /config export file)')
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('promote')
+            .setDescription('Copy values between environments (promotions into protected ones need a second approver)')
+            .addStringOption(option =>
+                option.setName('from')
+                    .setDescription('Environment to copy from (default: the first unprotected one)')
+                    .addChoices(...ENV_CHOICES)
+            )
+            .addStringOption(option =>
+                option.setName('to')
+                    .setDescription('Environment to copy to (default: the first protected one)')
+                    .addChoices(...ENV_CHOICES)
+            )
+            .addStringOption(option =>
+                option.setName('keys')
+                    .setDescription('Comma-separated keys to promote (default: every key that differs)')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('schedule')
+            .setDescription('Apply a value at a later time, optionally reverting it afterwards')
+            .addStringOption(option =>
+                option.setName('env')
+                    .setDescription('Environment to edit')
+                    .setRequired(true)
+                    .addChoices(...ENV_CHOICES)
+            )
+            .addStringOption(option =>
+                option.setName('key')
+                    .setDescription('Configuration key')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+            .addStringOption(option =>
+                option.setName('value')
+                    .setDescription('Value to apply')
+                    .setRequired(true)
+            )
+            .addStringOption(option =>
+                option.setName('at')
+                    .setDescription('When to apply: "2h", "in 30m", a unix timestamp or an ISO time like 2025-06-01T02:00Z')
+                    .setRequired(true)
+            )
+            .addStringOption(option =>
+                option.setName('revert_after')
+                    .setDescription('Restore the previous value after this long, e.g. "45m" or "2h"')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('schedules')
+            .setDescription('List pending scheduled changes, or cancel one')
+            .addStringOption(option =>
+                option.setName('cancel')
+                    .setDescription('ID of the schedule to cancel')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('drift')
+            .setDescription('Compare backend keys and defaults with the bot\'s CONFIG_DEFAULTS')
+            .addStringOption(option =>
+                option.setName('env')
+                    .setDescription('Environment to check')
+                    .setRequired(true)
+                    .addChoices(...ENV_CHOICES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('history')
+            .setDescription('Show recent changes to a key')
+            .addStringOption(option =>
+                option.setName('key')
+                    .setDescription('Configuration key')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+            .addStringOption(option =>
+                option.setName('env')
+                    .setDescription('Only show changes in this environment')
+                    .addChoices(...ENV_CHOICES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('rollback')
+            .setDescription('Restore the value a change replaced')
+            .addIntegerOption(option =>
+                option.setName('id')
+                    .setDescription('Audit entry ID from /config history')
+                    .setRequired(true)
+                    .setMinValue(1)
+            )
     );
 
+// Shown when a mention is classified as a question about configuration
+export const helpText = [
+    '**Backend configuration** is managed with the `/config` command:',
+    '• `/config view env:' + ENV_HINT + '` – show every value in an environment',
+    '• `/config edit env:' + ENV_HINT + ' key:<key> value:<value>` – change one value (asks for confirmation)',
+    '• `/config diff env:' + ENV_HINT + ' env2:' + ENV_HINT + '` – compare two environments',
+    '• `/config export env:' + ENV_HINT + '` – download the configuration as JSON',
+    '• `/config import env:' + ENV_HINT + ' file:<json>` – change several values at once (asks for confirmation)',
+    '• `/config promote from:<optional> to:<optional> keys:<optional>` – copy values between environments (into a protected one, a second person with the approver role confirms)',
+    '• `/config schedule env:' + ENV_HINT + ' key:<key> value:<value> at:<time> revert_after:<optional>` – apply a value later, e.g. for a maintenance window',
+    '• `/config schedules cancel:<optional id>` – list pending schedules or cancel one',
+    '• `/config drift env:' + ENV_HINT + '` – list keys missing on either side or with different defaults',
+    '• `/config history key:<key>` – see who changed a key, when, and from what',
+    '• `/config rollback id:<id>` – restore the value replaced by a change (asks for confirmation)'
+].join('\n');
+
 export async function autocomplete(interaction: AutocompleteInteraction) {
-    const focusedValue = interaction.options.getFocused();
-    const keys = Object.keys(CONFIG_DEFAULTS);
-    const filtered = keys.filter(choice => choice.startsWith(focusedValue)).slice(0, 25);
+    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const keys = Object.keys(CONFIG_SCHEMA) as ConfigKey[];
+    const filtered = keys.filter(choice => choice.toLowerCase().includes(focusedValue)).slice(0, 25);
     await interaction.respond(
-        filtered.map(choice => ({ name: choice, value: choice }))
+        filtered.map(choice => ({ name: describeKey(choice), value: choice }))
     );
 }
 
 export async function execute(interaction: ChatInputCommandInteraction) {
     const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'promote') {
+        const environments = getEnvironments();
+        const from = interaction.options.getString('from') ?? environments.find(env => !env.protected)?.name;
+        const to = interaction.options.getString('to') ?? environments.find(env => env.protected)?.name;
+
+        if (!from || !to || from === to) {
+            await interaction.reply({ content: 'Pick two different environments with `from:` and `to:`.', ephemeral: true });
+            return;
+        }
+        // The preview shows the source values, so reading them needs view access too
+        if (!(await ensureAccess(interaction, 'promote', to))) return;
+        if (!(await ensureAccess(interaction, 'view', from))) return;
+        await handlePromote(interaction, from, to);
+        return;
+    } else if (subcommand === 'history') {
+        await handleHistory(interaction);
+        return;
+    } else if (subcommand === 'rollback') {
+        await handleRollback(interaction);
+        return;
+    } else if (subcommand === 'schedules') {
+        await handleSchedules(interaction);
+        return;
+    }
+
     const env = interaction.options.getString('env', true) as Env;
 
+    if (!(await ensureAccess(interaction, SUBCOMMAND_ACTIONS[subcommand], env))) return;
+
     if (subcommand === 'view') {
         await handleView(interaction, env);
     } else if (subcommand === 'edit') {
         await handleEdit(interaction, env);
+    } else if (subcommand === 'diff') {
+        const env2 = interaction.options.getString('env2', true) as Env;
+        if (!(await ensureAccess(interaction, 'view', env2))) return;
+        await handleDiff(interaction, env, interaction.options.getString('env2', true) as Env);
+    } else if (subcommand === 'export') {
+        await handleExport(interaction, env);
+    } else if (subcommand === 'import') {
+        await handleImport(interaction, env);
+    } else if (subcommand === 'drift') {
+        await handleDrift(interaction, env);
+    } else if (subcommand === 'schedule') {
+        await handleSchedule(interaction, env);
     }
 }
 
@@ -92,7 +348,9 @@ async function handleView(interaction: ChatInputCommandInteraction, env: Env) {
         
         for (const [key, value] of Object.entries(configs)) {
             const [category] = key.split('.');
-            const entry = `\`${key}\`: ${formatValue(value)}`;
+            // Flag values the backend holds that the schema would reject
+            const invalid = isConfigKey(key) && validateValue(key, value) !== null;
+            const entry = `\`${key}\`: ${formatConfigValue(key, value)}${invalid ? ' ⚠️' : ''}`;
             
             if (!categories.has(category)) {
                 categories.set(category, []);
@@ -102,7 +360,7 @@ async function handleView(interaction: ChatInputCommandInteraction, env: Env) {
 
         const embed = new EmbedBuilder()
             .setTitle(`Configuration: ${env}`)
-            .setColor(env === 'Prod' ? 0xFF0000 : 0x00FF00) // Red for Prod, Green for Dev
+            .setColor(getEnvColor(env))
             .setTimestamp();
 
         for (const [category, entries] of categories) {
@@ -134,32 +392,548 @@ async function handleEdit(interaction: ChatInputCommandInteraction, env: Env) {
         return;
     }
 
+    if (!(await ensureAccess(interaction, 'edit', env, [key]))) return;
+
     // Parse value
-    let value: any = valueStr;
-    const defaultValue = CONFIG_DEFAULTS[key];
-    const expectedType = typeof defaultValue;
+    let value: unknown;
 
     try {
-        if (expectedType === 'number') {
-            value = Number(valueStr);
-            if (isNaN(value)) throw new Error('Not a number');
-        } else if (expectedType === 'boolean') {
-            if (valueStr.toLowerCase() === 'true') value = true;
-            else if (valueStr.toLowerCase() === 'false') value = false;
-            else throw new Error('Not a boolean');
+        value = parseConfigValue(key, valueStr);
+    } catch (error: any) {
+        await interaction.reply({ content: `Invalid value: ${error.message}. ${describeKey(key)}`, ephemeral: true });
+        return;
+    }
+
+    const valueError = validateValue(key, value);
+    if (valueError) {
+        await interaction.reply({ content: `Invalid value: ${valueError}.`, ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    // Cross-key constraints are checked against the environment's current values
+    let current: Record<string, unknown>;
+    try {
+        current = (await fetchConfig(env)).configs;
+    } catch (error: any) {
+        await interaction.editReply({ content: `Failed to fetch config: ${error.message}` });
+        return;
+    }
+
+    const errors = validateUpdates(current, { [key]: value });
+    if (errors.length > 0) {
+        await interaction.editReply({ content: `Change rejected:\n${errors.map(error => `• ${error}`).join('\n')}` });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Confirm Configuration Change (${env})`)
+        .setColor(0xFFFF00) // Yellow for warning
+        .setDescription(CONFIG_SCHEMA[key].description)
+        .addFields(
+            { name: 'Key', value: `\`${key}\``, inline: true },
+            { name: 'Current Value', value: `\`${formatRaw(current[key])}\` (${formatConfigValue(key, current[key])})`, inline: true },
+            { name: 'New Value', value: `\`${value}\` (${formatConfigValue(key, value)})`, inline: true }
+        );
+
+    await confirmAndApply(interaction, env, { [key]: value }, embed, { source: 'edit' });
+}
+
+async function handleDiff(interaction: ChatInputCommandInteraction, env: Env, env2: Env) {
+    if (env === env2) {
+        await interaction.reply({ content: 'Pick two different environments to compare.', ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    try {
+        const [left, right] = await Promise.all([fetchConfig(env), fetchConfig(env2)]);
+        const keys = new Set([...Object.keys(left.configs), ...Object.keys(right.configs)]);
+
+        const lines: string[] = [];
+        for (const key of Array.from(keys).sort()) {
+            const inLeft = key in left.configs;
+            const inRight = key in right.configs;
+            const leftValue = left.configs[key];
+            const rightValue = right.configs[key];
+
+            if (inLeft && inRight && valuesEqual(leftValue, rightValue)) continue;
+
+            const leftText = inLeft ? `\`${formatRaw(leftValue)}\`` : '*missing*';
+            const rightText = inRight ? `\`${formatRaw(rightValue)}\`` : '*missing*';
+            lines.push(`\`${key}\`: ${leftText} → ${rightText}`);
         }
-        // Strings remain strings
-    } catch {
+
+        const embed = new EmbedBuilder()
+            .setTitle(`Configuration Diff: ${env} → ${env2}`)
+            .setColor(0x5865F2)
+            .setDescription(lines.length > 0
+                ? truncateLines(lines, 4000)
+                : 'Both environments have identical values.')
+            .setFooter({ text: `${lines.length} differing key(s)` })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error: any) {
+        await interaction.editReply({
+            content: `Failed to diff config: ${error.message}`
+        });
+    }
+}
+
+async function handleExport(interaction: ChatInputCommandInteraction, env: Env) {
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        const { configs } = await fetchConfig(env);
+        const payload = {
+            env,
+            exportedAt: new Date().toISOString(),
+            configs
+        };
+
+        const file = new AttachmentBuilder(Buffer.from(JSON.stringify(payload, null, 2)), {
+            name: `config-${env.toLowerCase()}.json`
+        });
+
+        await interaction.editReply({
+            content: `Exported ${Object.keys(configs).length} keys from ${env}.`,
+            files: [file]
+        });
+    } catch (error: any) {
+        await interaction.editReply({
+            content: `Failed to export config: ${error.message}`
+        });
+    }
+}
+
+async function handleImport(interaction: ChatInputCommandInteraction, env: Env) {
+    const attachment = interaction.options.getAttachment('file', true);
+
+    if (attachment.size > MAX_IMPORT_BYTES) {
         await interaction.reply({
-            content: `Invalid value type for \`${key}\`. Expected \`${expectedType}\`.`,
+            content: `Import file is too large (max ${MAX_IMPORT_BYTES / 1024} KB).`,
             ephemeral: true
         });
         return;
     }
 
+    await interaction.deferReply();
+
+    let updates: ConfigUpdates;
+    let current: Record<string, unknown>;
+
+    try {
+        const response = await fetch(attachment.url);
+        if (!response.ok) {
+            throw new Error(`Download failed with ${response.status}`);
+        }
+
+        const parsed = JSON.parse(await response.text());
+        updates = validateImport(parsed);
+        current = (await fetchConfig(env)).configs;
+    } catch (error: any) {
+        await interaction.editReply({ content: `Import rejected:\n${error.message}` });
+        return;
+    }
+
+    // Only keys whose value actually changes are sent
+    const changes = (Object.entries(updates) as [ConfigKey, unknown][])
+        .filter(([key, value]) => !valuesEqual(current[key], value));
+
+    if (!(await ensureAccess(interaction, 'edit', env, changes.map(([key]) => key)))) return;
+
+    const errors = validateUpdates(current, Object.fromEntries(changes));
+    if (errors.length > 0) {
+        await interaction.editReply({ content: `Import rejected:\n${truncateLines(errors.map(error => `• ${error}`), 1900)}` });
+        return;
+    }
+
+    if (changes.length === 0) {
+        await interaction.editReply({ content: `Nothing to import: every value already matches ${env}.` });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Confirm Configuration Import (${env})`)
+        .setColor(0xFFFF00) // Yellow for warning
+        .setDescription(truncateLines(
+            changes.map(([key, value]) => `\`${key}\`: \`${formatRaw(current[key])}\` → \`${formatRaw(value)}\``),
+            4000
+        ))
+        .setFooter({ text: `${changes.length} key(s) will change in a single update` });
+
+    await confirmAndApply(interaction, env, Object.fromEntries(changes), embed, { source: 'import' });
+}
+
+async function handlePromote(interaction: ChatInputCommandInteraction, from: Env, to: Env) {
+    await interaction.deferReply();
+
+    let source: Record<string, unknown>;
+    let target: Record<string, unknown>;
+
+    try {
+        [source, target] = await Promise.all([
+            fetchConfig(from).then(result => result.configs),
+            fetchConfig(to).then(result => result.configs)
+        ]);
+    } catch (error: any) {
+        await interaction.editReply({ content: `Failed to fetch config: ${error.message}` });
+        return;
+    }
+
+    const requested = interaction.options.getString('keys')
+        ?.split(',')
+        .map(key => key.trim())
+        .filter(Boolean);
+
+    const candidates = requested ?? Object.keys(source).filter(key => key in CONFIG_DEFAULTS);
+
+    const errors: string[] = [];
+    for (const key of candidates) {
+        if (!(key in CONFIG_DEFAULTS)) errors.push(`• Unknown key \`${key}\``);
+        else if (!(key in source)) errors.push(`• \`${key}\` has no value in ${from}`);
+    }
+    if (errors.length > 0) {
+        await interaction.editReply({ content: `Promotion rejected:\n${truncateLines(errors, 1900)}` });
+        return;
+    }
+
+    const changes = candidates
+        .filter(key => !valuesEqual(source[key], target[key]))
+        .map(key => [key, source[key]] as [ConfigKey, unknown]);
+
+    if (changes.length === 0) {
+        await interaction.editReply({ content: `Nothing to promote: ${to} already matches ${from}.` });
+        return;
+    }
+
+    if (!(await ensureAccess(interaction, 'promote', to, changes.map(([key]) => key)))) return;
+
+    const invalid = validateUpdates(target, Object.fromEntries(changes));
+    if (invalid.length > 0) {
+        await interaction.editReply({ content: `Promotion rejected:\n${truncateLines(invalid.map(error => `• ${error}`), 1900)}` });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Promote Configuration: ${from} → ${to}`)
+        .setColor(0xFFFF00) // Yellow for warning
+        .setDescription(truncateLines(
+            changes.map(([key, value]) => `\`${key}\`: \`${formatRaw(target[key])}\` → \`${formatRaw(value)}\``),
+            4000
+        ))
+        .addFields({ name: 'Requested by', value: `${interaction.user}`, inline: true });
+
+    // Promotions into protected environments need a second person
+    const requireApproval = isProtectedEnv(to);
+    embed.setFooter({ text: requireApproval
+        ? `${changes.length} key(s) in ${to} • needs approval from a second person with the approver role`
+        : `${changes.length} key(s) in ${to}` });
+
+    await confirmAndApply(interaction, to, Object.fromEntries(changes), embed, { source: 'promote', requireApproval });
+}
+
+async function handleSchedule(interaction: ChatInputCommandInteraction, env: Env) {
+    const key = interaction.options.getString('key', true);
+    const valueStr = interaction.options.getString('value', true);
+    const atStr = interaction.options.getString('at', true);
+    const revertStr = interaction.options.getString('revert_after');
+
+    if (!isConfigKey(key)) {
+        await interaction.reply({ content: `Invalid config key: \`${key}\``, ephemeral: true });
+        return;
+    }
+
+    if (!(await ensureAccess(interaction, 'edit', env, [key]))) return;
+
+    let value: unknown;
+    try {
+        value = parseConfigValue(key, valueStr);
+    } catch (error: any) {
+        await interaction.reply({ content: `Invalid value: ${error.message}. ${describeKey(key)}`, ephemeral: true });
+        return;
+    }
+
+    const runAt = parseScheduleTime(atStr);
+    if (runAt === null || runAt <= Date.now() || runAt > Date.now() + MAX_SCHEDULE_AHEAD_MS) {
+        await interaction.reply({ 
+            content: `Invalid time \`${atStr}\`. Use something like \`2h\`, \`in 30m\` or \`2025-06-01T02:00Z\`, up to 30 days ahead.`, 
+            ephemeral: true 
+        });
+        return;
+    }
+
+    const revertAfterMs = revertStr ? parseDuration(revertStr) : undefined;
+    if (revertAfterMs === null || revertAfterMs === 0) {
+        await interaction.reply({ content: `Invalid duration \`${revertStr}\`. Use something like \`45m\` or \`1h30m\`.`, ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    // Validate now against current values; it's checked again when the schedule runs
+    let current: Record<string, unknown>;
+    try {
+        current = (await fetchConfig(env)).configs;
+    } catch (error: any) {
+        await interaction.editReply({ content: `Failed to fetch config: ${error.message}` });
+        return;
+    }
+
+    const errors = validateUpdates(current, { [key]: value });
+    if (errors.length > 0) {
+        await interaction.editReply({ content: `Schedule rejected:\n${errors.map(error => `• ${error}`).join('\n')}` });
+        return;
+    }
+
+    const schedule = await createSchedule({
+        env,
+        key,
+        value,
+        runAt: new Date(runAt).toISOString(),
+        revertAfterMs,
+        userId: interaction.user.id,
+        userTag: interaction.user.tag,
+        channelId: interaction.channelId
+    });
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Scheduled Configuration Change (${env})`)
+        .setColor(0x5865F2)
+        .addFields(
+            { name: 'Key', value: `\`${key}\``, inline: true },
+            { name: 'Value', value: `\`${formatRaw(current[key])}\` → \`${formatRaw(value)}\``, inline: true },
+            { name: 'Applies', value: `<t:${Math.floor(runAt / 1000)}:f> (<t:${Math.floor(runAt / 1000)}:R>)`, inline: false }
+        )
+        .setFooter({ text: `ID ${schedule.id} • cancel with /config schedules cancel:${schedule.id}` });
+
+    if (revertAfterMs) {
+        embed.addFields({ name: 'Reverts', value: `<t:${Math.floor((runAt + revertAfterMs) / 1000)}:f> to the value in place when it applies`, inline: false });
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+}
+
+async function handleSchedules(interaction: ChatInputCommandInteraction) {
+    const cancelId = interaction.options.getString('cancel');
+
+    if (cancelId) {
+        const schedule = await getSchedule(cancelId);
+        if (!schedule) {
+            await interaction.reply({ content: `No pending schedule \`${cancelId}\`.`, ephemeral: true });
+            return;
+        }
+
+        if (!(await ensureAccess(interaction, 'edit', schedule.env, [schedule.key]))) return;
+
+        await cancelSchedule(cancelId);
+        const note = schedule.phase === 'revert'
+            ? ` The value was already applied and will **not** be reverted.`
+            : '';
+        await interaction.reply({ content: `Cancelled schedule \`${cancelId}\` (${schedule.env} \`${schedule.key}\`).${note}` });
+        return;
+    }
+
+    const visibleEnvs = getViewableEnvs(interaction);
+    if (visibleEnvs.length === 0) {
+        await ensureAccess(interaction, 'view', getEnvironmentNames()[0]);
+        return;
+    }
+
+    const pending = (await listSchedules()).filter(schedule => visibleEnvs.includes(schedule.env));
+    const lines = pending.map(schedule => {
+        const time = Math.floor(Date.parse(schedule.runAt) / 1000);
+        const action = schedule.phase === 'apply'
+            ? `set to \`${formatRaw(schedule.value)}\`${schedule.revertAfterMs ? ' (then revert)' : ''}`
+            : `revert to \`${formatRaw(schedule.revertValue)}\``;
+        return `\`${schedule.id}\` <t:${time}:R> **${schedule.env}** \`${schedule.key}\` ${action} by <@${schedule.userId}>`;
+    });
+
+    const embed = new EmbedBuilder()
+        .setTitle('Scheduled Configuration Changes')
+        .setColor(0x5865F2)
+        .setDescription(lines.length > 0 ? truncateLines(lines, 4000) : 'Nothing scheduled.');
+
+    await interaction.reply({ embeds: [embed], allowedMentions: { parse: [] } });
+}
+
+async function handleDrift(interaction: ChatInputCommandInteraction, env: Env) {
+    await interaction.deferReply();
+
+    try {
+        const result = await fetchConfig(env);
+        const defaults = (result.defaults ?? {}) as Record<string, unknown>;
+        const lines = formatDrift(computeDrift(result.configs, defaults), defaults);
+        const snapshot = await getLatestSnapshot(env);
+
+        const embed = new EmbedBuilder()
+            .setTitle(`Configuration Drift: ${env}`)
+            .setColor(lines.length > 0 ? 0xFFA500 : 0x00FF00)
+            .setDescription(lines.length > 0
+                ? truncateLines(lines, 4000)
+                : 'Backend keys and defaults match CONFIG_DEFAULTS.')
+            .setFooter({ text: snapshot
+                ? `Last background snapshot: ${new Date(snapshot.takenAt).toUTCString()}`
+                : 'No background snapshot yet' })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error: any) {
+        await interaction.editReply({ content: `Failed to check drift: ${error.message}` });
+    }
+}
+
+async function handleHistory(interaction: ChatInputCommandInteraction) {
+    const key = interaction.options.getString('key', true);
+    const env = interaction.options.getString('env') as Env | null;
+
+    // Without an env filter, only changes in environments the user may view are listed
+    const visibleEnvs = getViewableEnvs(interaction);
+    const deniedEnv = env ?? (visibleEnvs.length === 0 ? getEnvironmentNames()[0] : null);
+    if (deniedEnv && !visibleEnvs.includes(deniedEnv)) {
+        await ensureAccess(interaction, 'view', deniedEnv);
+        return;
+    }
+
+    const entries = (await getAuditHistory(key, env ?? undefined, 50))
+        .filter(entry => visibleEnvs.includes(entry.env))
+        .slice(0, 10);
+
+    const embed = new EmbedBuilder()
+        .setTitle(`History: ${key}${env ? ` (${env})` : ''}`)
+        .setColor(0x5865F2)
+        .setDescription(entries.length > 0
+            ? truncateLines(entries.map(entry => {
+                const time = Math.floor(new Date(entry.timestamp).getTime() / 1000);
+                const approval = entry.approvedBy ? `, approved by <@${entry.approvedBy}>` : '';
+                return `\`#${entry.id}\` <t:${time}:f> **${entry.env}** \`${formatAuditValue(entry.oldValue)}\` → \`${formatAuditValue(entry.newValue)}\` by <@${entry.userId}> (${entry.source}${approval})`;
+            }), 4000)
+            : 'No recorded changes.')
+        .setFooter({ text: 'Use /config rollback id:<id> to restore the value a change replaced' });
+
+    await interaction.reply({ embeds: [embed], allowedMentions: { parse: [] } });
+}
+
+async function handleRollback(interaction: ChatInputCommandInteraction) {
+    const id = interaction.options.getInteger('id', true);
+    const entry = await getAuditEntry(id);
+
+    if (!entry) {
+        await interaction.reply({ content: `No audit entry \`#${id}\`.`, ephemeral: true });
+        return;
+    }
+    if (entry.oldValue === undefined) {
+        await interaction.reply({ 
+            content: `\`${entry.key}\` had no value before change \`#${id}\`, so there is nothing to restore.`, 
+            ephemeral: true 
+        });
+        return;
+    }
+    if (!isConfigKey(entry.key)) {
+        await interaction.reply({ content: `\`${entry.key}\` is no longer a known config key.`, ephemeral: true });
+        return;
+    }
+
+    if (!(await ensureAccess(interaction, 'rollback', entry.env, [entry.key]))) return;
+
+    await interaction.deferReply();
+
+    let configs: Record<string, unknown>;
+    try {
+        configs = (await fetchConfig(entry.env)).configs;
+    } catch (error: any) {
+        await interaction.editReply({ content: `Failed to fetch config: ${error.message}` });
+        return;
+    }
+
+    // The schema may have tightened since the change was made
+    const errors = validateUpdates(configs, { [entry.key]: entry.oldValue });
+    if (errors.length > 0) {
+        await interaction.editReply({ content: `Rollback rejected:\n${errors.map(error => `• ${error}`).join('\n')}` });
+        return;
+    }
+    const current = configs[entry.key];
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Confirm Rollback of #${entry.id} (${entry.env})`)
+        .setColor(0xFFFF00) // Yellow for warning
+        .addFields(
+            { name: 'Key', value: `\`${entry.key}\``, inline: true },
+            { name: 'Current Value', value: `\`${formatRaw(current)}\``, inline: true },
+            { name: 'Restored Value', value: `\`${formatRaw(entry.oldValue)}\``, inline: true }
+        );
+
+    await confirmAndApply(interaction, entry.env, { [entry.key]: entry.oldValue }, embed, { source: 'rollback' });
+}
+
+/**
+ * Check the permission rules and, if the user is denied, tell them and log the attempt.
+ * Returns whether the command may continue.
+ */
+async function ensureAccess(
+    interaction: ChatInputCommandInteraction,
+    action: ConfigAction,
+    env: Env,
+    keys: string[] = []
+): Promise<boolean> {
+    const subject = getAccessSubject(interaction);
+    const result = checkConfigAccess(subject, action, env, keys);
+    if (result.allowed) return true;
+
+    await logDeniedAttempt(interaction.client, subject, action, env, keys, result.reason);
+
+    const content = `⛔ ${result.reason}`;
+    if (interaction.deferred || interaction.replied) {
+        await interaction.editReply({ content, embeds: [], components: [] });
+    } else {
+        await interaction.reply({ content, ephemeral: true });
+    }
+    return false;
+}
+
+function getViewableEnvs(interaction: ChatInputCommandInteraction): Env[] {
+    const subject = getAccessSubject(interaction);
+    return getEnvironmentNames().filter(env => checkConfigAccess(subject, 'view', env).allowed);
+}
+
+function getApproverRoleIds(): string[] {
+    return (process.env.CONFIG_APPROVER_ROLE_IDS ?? '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+}
+
+// Without configured approver roles, server administrators can approve
+function isApprover(i: ButtonInteraction): boolean {
+    const roleIds = getApproverRoleIds();
+    if (roleIds.length === 0) {
+        return i.memberPermissions?.has(PermissionFlagsBits.Administrator) ?? false;
+    }
+
+    const memberRoles = getAccessSubject(i).roleIds;
+    return roleIds.some(id => memberRoles.includes(id));
+}
+
+/**
+ * Show `embed` with Confirm / Cancel buttons and, once confirmed, send every update
+ * to the backend in one `updateConfig` call. Normally only the invoking user may confirm;
+ * with `requireApproval` the confirm must come from a different user with an approver role.
+ */
+async function confirmAndApply(
+    interaction: ChatInputCommandInteraction,
+    env: Env,
+    updates: ConfigUpdates,
+    embed: EmbedBuilder,
+    options: ConfirmOptions
+) {
+    const { source, requireApproval = false } = options;
+
     const confirmButton = new ButtonBuilder()
         .setCustomId('confirm')
-        .setLabel('Confirm Change')
+        .setLabel(requireApproval ? 'Approve & Apply' : 'Confirm Change')
         .setStyle(ButtonStyle.Danger);
 
     const cancelButton = new ButtonBuilder()
@@ -170,38 +944,45 @@ async function handleEdit(interaction: ChatInputCommandInteraction, env: Env) {
     const row = new ActionRowBuilder<ButtonBuilder>()
         .addComponents(confirmButton, cancelButton);
 
-    const embed = new EmbedBuilder()
-        .setTitle(`Confirm Configuration Change (${env})`)
-        .setColor(0xFFFF00) // Yellow for warning
-        .addFields(
-            { name: 'Key', value: `\`${key}\``, inline: true },
-            { name: 'New Value', value: `\`${value}\``, inline: true },
-            { name: 'Type', value: `\`${expectedType}\``, inline: true }
-        );
-
-    const response = await interaction.reply({
-        embeds: [embed],
-        components: [row],
-        fetchReply: true
-    });
+    const response = interaction.deferred
+        ? await interaction.editReply({ embeds: [embed], components: [row] })
+        : await interaction.reply({ embeds: [embed], components: [row], fetchReply: true });
 
     try {
         const confirmation = await response.awaitMessageComponent({
             componentType: ComponentType.Button,
-            filter: i => i.user.id === interaction.user.id,
-            time: 30000
+            filter: requireApproval
+                ? i => filterApprover(i, interaction.user.id)
+                : i => i.user.id === interaction.user.id,
+            time: requireApproval ? APPROVAL_TIMEOUT_MS : CONFIRM_TIMEOUT_MS
         });
 
         if (confirmation.customId === 'confirm') {
             await confirmation.update({ content: 'Updating...', components: [] });
             
             try {
-                await updateConfig(env, { [key]: value });
+                const { auditEntries, auditError } = await applyConfigChanges(interaction.client, env, updates, {
+                    userId: interaction.user.id,
+                    userTag: interaction.user.tag,
+                    approvedBy: requireApproval ? confirmation.user.id : undefined
+                }, source);
+
+                const summary = Object.entries(updates)
+                    .map(([key, value]) => `\`${key}\` to \`${formatRaw(value)}\``);
                 const successEmbed = new EmbedBuilder()
                     .setTitle('Configuration Updated')
                     .setColor(0x00FF00)
-                    .setDescription(`Successfully updated \`${key}\` to \`${value}\` in ${env}.`)
+                    .setDescription(truncateLines([`Successfully updated in ${env}:`, ...summary], 4000))
+                    .setFooter({ text: auditError
+                        ? `Not recorded in the audit log: ${auditError.message}`.slice(0, 2048)
+                        : `Audit ${auditEntries.map(entry => `#${entry.id}`).join(', ')}` })
                     .setTimestamp();
+                if (requireApproval) {
+                    successEmbed.addFields(
+                        { name: 'Requested by', value: `${interaction.user}`, inline: true },
+                        { name: 'Approved by', value: `${confirmation.user}`, inline: true }
+                    );
+                }
                 
                 await confirmation.editReply({ content: null, embeds: [successEmbed] });
             } catch (error: any) {
@@ -217,9 +998,83 @@ async function handleEdit(interaction: ChatInputCommandInteraction, env: Env) {
     }
 }
 
-function formatValue(value: any): string {
-    if (typeof value === 'boolean') {
-        return value ? '✅' : '❌'; // Or just true/false
+// The requester may cancel but not approve their own change; everyone else needs an approver role
+async function filterApprover(i: ButtonInteraction, requesterId: string): Promise<boolean> {
+    if (i.customId === 'cancel') {
+        if (i.user.id === requesterId || isApprover(i)) return true;
+        await i.reply({ content: 'Only the requester or an approver can cancel this.', ephemeral: true });
+        return false;
+    }
+
+    if (i.user.id === requesterId) {
+        await i.reply({ content: 'A second person has to approve this change.', ephemeral: true });
+        return false;
+    }
+    if (!isApprover(i)) {
+        await i.reply({ content: 'You need the approver role to approve configuration changes.', ephemeral: true });
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Validate an imported JSON document: either a plain `{ key: value }` object or a
+ * `/config export` file with a `configs` property. Every problem is reported at once.
+ */
+function validateImport(parsed: unknown): ConfigUpdates {
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Expected a JSON object of key/value pairs.');
+    }
+
+    const root = parsed as Record<string, unknown>;
+    const entries = root.configs && typeof root.configs === 'object' && !Array.isArray(root.configs)
+        ? root.configs as Record<string, unknown>
+        : root;
+
+    const errors: string[] = [];
+    const updates: ConfigUpdates = {};
+
+    for (const [key, value] of Object.entries(entries)) {
+        if (!(key in CONFIG_DEFAULTS)) {
+            errors.push(`• Unknown key \`${key}\``);
+            continue;
+        }
+
+        const error = validateValue(key as ConfigKey, value);
+        if (error) {
+            errors.push(`• ${error}`);
+            continue;
+        }
+
+        updates[key as ConfigKey] = value;
     }
-    return String(value);
+
+    if (errors.length > 0) {
+        throw new Error(truncateLines(errors, 1900));
+    }
+    if (Object.keys(updates).length === 0) {
+        throw new Error('The file contains no configuration keys.');
+    }
+    return updates;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Join lines, dropping the tail (with a note) if it would exceed `limit` characters. */
+function truncateLines(lines: string[], limit: number): string {
+    let result = '';
+    for (let i = 0; i < lines.length; i++) {
+        const next = result ? `${result}\n${lines[i]}` : lines[i];
+        if (next.length > limit - 20) {
+            return `${result}\n…and ${lines.length - i} more`;
+        }
+        result = next;
+    }
+    return result;
+}
+
+function formatRaw(value: unknown): string {
+    return value === undefined ? 'unset' : String(value);
 }
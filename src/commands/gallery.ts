@@ -0,0 +1,171 @@
+import {
+    SlashCommandBuilder,
+    ChatInputCommandInteraction,
+    ButtonInteraction,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    EmbedBuilder
+} from 'discord.js';
+import { MemoryStore } from '../storage/index.js';
+import { generateImages, interactionTarget } from '../generation.js';
+import {
+    GalleryQuery,
+    GenerationRecord,
+    getGenerationRecord,
+    loadGenerationInputs,
+    searchGenerations
+} from '../generation-log.js';
+
+const PAGE_SIZE = 5;
+const GALLERY_PREFIX = 'gallery';
+
+// Button IDs are limited to 100 characters, so the search behind a page is kept here
+const queries = new MemoryStore<GalleryQuery>({ ttlMs: 30 * 60 * 1000, maxEntries: 500 });
+
+export const data = new SlashCommandBuilder()
+    .setName('gallery')
+    .setDescription('Browse and search past image generations')
+    .addStringOption(option =>
+        option.setName('search')
+            .setDescription('Only generations whose prompt contains this text')
+            .setMaxLength(100)
+    )
+    .addUserOption(option =>
+        option.setName('user')
+            .setDescription('Only generations by this user')
+    );
+
+export function isGalleryButton(customId: string): boolean {
+    return customId.startsWith(`${GALLERY_PREFIX}:`);
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    // Outside a server only your own generations are listed
+    const query: GalleryQuery = {
+        guildId: interaction.guildId,
+        userId: interaction.guildId ? interaction.options.getUser('user')?.id : interaction.user.id,
+        text: interaction.options.getString('search') ?? undefined
+    };
+    await queries.set(interaction.id, query);
+
+    await interaction.reply(await renderPage(interaction.id, query, 0));
+}
+
+export async function handleButton(interaction: ButtonInteraction) {
+    const [, action, ...args] = interaction.customId.split(':');
+
+    if (action === 'page') {
+        const [queryId, offsetStr] = args;
+        const query = await queries.get(queryId);
+        if (!query) {
+            await interaction.reply({ content: 'This gallery view has expired. Run `/gallery` again.', ephemeral: true });
+            return;
+        }
+        await interaction.update(await renderPage(queryId, query, Number(offsetStr)));
+    } else if (action === 'regen') {
+        await handleRegenerate(interaction, Number(args[0]));
+    }
+}
+
+async function renderPage(queryId: string, query: GalleryQuery, offset: number) {
+    const { records, total } = await searchGenerations(query, offset, PAGE_SIZE);
+
+    const filters = [
+        query.text ? `prompt contains "${query.text}"` : null,
+        query.userId && query.guildId ? `by <@${query.userId}>` : null
+    ].filter(Boolean).join(', ');
+    const header = filters ? `*Showing generations where ${filters}*\n\n` : '';
+
+    const embed = new EmbedBuilder()
+        .setTitle('🖼️ Generation Gallery')
+        .setColor(0x5865F2)
+        .setDescription(header + (records.length > 0
+            ? records.map(formatRecord).join('\n\n')
+            : 'No generations found.'));
+    if (total > 0) {
+        embed.setFooter({ text: `${offset + 1}–${offset + records.length} of ${total}` });
+    }
+
+    const components: ActionRowBuilder<ButtonBuilder>[] = [];
+    if (records.length > 0) {
+        components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+            records.map(record => new ButtonBuilder()
+                .setCustomId(`${GALLERY_PREFIX}:regen:${record.id}`)
+                .setLabel(`Regenerate #${record.id}`)
+                .setStyle(ButtonStyle.Secondary))
+        ));
+    }
+    if (total > PAGE_SIZE) {
+        components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`${GALLERY_PREFIX}:page:${queryId}:${Math.max(0, offset - PAGE_SIZE)}`)
+                .setLabel('◀ Newer')
+                .setStyle(ButtonStyle.Primary)
+                .setDisabled(offset === 0),
+            new ButtonBuilder()
+                .setCustomId(`${GALLERY_PREFIX}:page:${queryId}:${offset + PAGE_SIZE}`)
+                .setLabel('Older ▶')
+                .setStyle(ButtonStyle.Primary)
+                .setDisabled(offset + PAGE_SIZE >= total)
+        ));
+    }
+
+    return { embeds: [embed], components };
+}
+
+function formatRecord(record: GenerationRecord): string {
+    const link = `https://discord.com/channels/${record.guildId ?? '@me'}/${record.channelId}/${record.messageId}`;
+    const when = Math.floor(new Date(record.completedAt).getTime() / 1000);
+    const prompt = record.prompt.length > 150 ? `${record.prompt.slice(0, 149)}…` : record.prompt;
+    const details = [
+        `<t:${when}:R>`,
+        `<@${record.userId}>`,
+        record.preset ? `preset \`${record.preset}\`` : null,
+        record.systemInstructions ? 'studio edit' : null,
+        record.model ?? record.provider ?? null,
+        `${record.outputs.length} image(s)`,
+        record.references.length > 0 ? `${record.references.length} reference(s)` : null
+    ].filter(Boolean).join(' · ');
+
+    return `**#${record.id}** [${prompt.replace(/[[\]]/g, '')}](${link})\n${details}`;
+}
+
+async function handleRegenerate(interaction: ButtonInteraction, id: number) {
+    const record = await getGenerationRecord(id);
+    // Records are only reachable from the server (or DM) they were made in
+    if (!record || record.guildId !== interaction.guildId || (!record.guildId && record.userId !== interaction.user.id)) {
+        await interaction.reply({ content: 'That generation is no longer available.', ephemeral: true });
+        return;
+    }
+
+    // Variations and studio edits are meaningless without the image they were applied to
+    const inputs = await loadGenerationInputs(record);
+    if ((record.variationOf && !inputs.variationOf) || (record.systemInstructions && inputs.missing > 0)) {
+        await interaction.reply({ content: `The source image of #${record.id} is no longer stored, so it can't be regenerated.`, ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    await generateImages(interactionTarget(interaction), {
+        prompt: record.prompt,
+        references: inputs.references,
+        variationOf: inputs.variationOf,
+        provider: record.provider,
+        preset: record.preset,
+        aspectRatio: record.aspectRatio,
+        variantCount: record.variantCount,
+        style: record.style,
+        negativePrompt: record.negativePrompt,
+        systemInstructions: record.systemInstructions
+    });
+
+    // Sent after the result, since a follow-up to a deferred reply would replace the status message
+    if (inputs.missing > 0) {
+        await interaction.followUp({
+            content: `⚠️ ${inputs.missing} reference image(s) of #${record.id} are no longer stored, so it was regenerated without them.`,
+            ephemeral: true
+        });
+    }
+}
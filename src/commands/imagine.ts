@@ -0,0 +1,130 @@
+import { 
+    SlashCommandBuilder, 
+    ChatInputCommandInteraction, 
+    AutocompleteInteraction, 
+    Attachment
+} from 'discord.js';
+import { ASPECT_RATIOS, AspectRatio, PROVIDER_NAMES, ProviderName } from '../providers/index.js';
+import { 
+    DEFAULT_VARIANT_COUNT, 
+    MAX_VARIANT_COUNT, 
+    STYLE_PRESETS, 
+    StylePreset, 
+    generateImages, 
+    interactionTarget 
+} from '../generation.js';
+import { getPreset, listPresets } from '../prompt-presets.js';
+import { attachmentSources, ingestReferenceImages } from '../reference-images.js';
+
+const MAX_REFERENCE_IMAGES = 4;
+
+export const data = new SlashCommandBuilder()
+    .setName('imagine')
+    .setDescription('Generate images from a prompt')
+    .addStringOption(option =>
+        option.setName('prompt')
+            .setDescription('What to generate')
+            .setRequired(true)
+            .setMaxLength(2000)
+    )
+    .addStringOption(option =>
+        option.setName('preset')
+            .setDescription('Prompt preset, e.g. card-portrait (default: the server\'s default preset)')
+            .setAutocomplete(true)
+    )
+    .addStringOption(option =>
+        option.setName('aspect_ratio')
+            .setDescription('Aspect ratio of the output (default: from the preset, else 16:9)')
+            .addChoices(...ASPECT_RATIOS.map(ratio => ({ name: ratio, value: ratio })))
+    )
+    .addIntegerOption(option =>
+        option.setName('variants')
+            .setDescription(`Number of variants to generate (default: from the preset, else ${DEFAULT_VARIANT_COUNT})`)
+            .setMinValue(1)
+            .setMaxValue(MAX_VARIANT_COUNT)
+    )
+    .addStringOption(option =>
+        option.setName('style')
+            .setDescription('Style preset')
+            .addChoices(...Object.keys(STYLE_PRESETS).map(style => ({ name: style, value: style })))
+    )
+    .addStringOption(option =>
+        option.setName('negative_prompt')
+            .setDescription('Things the image should NOT contain')
+            .setMaxLength(500)
+    )
+    .addStringOption(option =>
+        option.setName('provider')
+            .setDescription('Image provider to use for this request')
+            .addChoices(...PROVIDER_NAMES.map(name => ({ name, value: name })))
+    );
+
+for (let i = 1; i <= MAX_REFERENCE_IMAGES; i++) {
+    data.addAttachmentOption(option =>
+        option.setName(`reference_${i}`)
+            .setDescription(`Reference image ${i}`)
+    );
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const presets = await listPresets(interaction.guildId);
+    await interaction.respond(
+        presets
+            .filter(preset => preset.name.includes(focusedValue))
+            .slice(0, 25)
+            .map(preset => ({ name: `${preset.name} – ${preset.description}`.slice(0, 100), value: preset.name }))
+    );
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const prompt = interaction.options.getString('prompt', true);
+
+    const presetName = interaction.options.getString('preset');
+    const preset = presetName ? await getPreset(interaction.guildId, presetName) : undefined;
+    if (presetName && !preset) {
+        await interaction.reply({ 
+            content: `Unknown preset \`${presetName}\`. See \`/preset list\`.`, 
+            ephemeral: true 
+        });
+        return;
+    }
+
+    const attachments: Attachment[] = [];
+    for (let i = 1; i <= MAX_REFERENCE_IMAGES; i++) {
+        const attachment = interaction.options.getAttachment(`reference_${i}`);
+        if (attachment) attachments.push(attachment);
+    }
+
+    const nonImage = attachments.find(attachment => !attachment.contentType?.startsWith('image/'));
+    if (nonImage) {
+        await interaction.reply({ 
+            content: `Reference \`${nonImage.name}\` is not an image.`, 
+            ephemeral: true 
+        });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    const { images: references, skipped } = await ingestReferenceImages(attachmentSources(attachments));
+
+    await generateImages(interactionTarget(interaction), {
+        prompt,
+        references,
+        aspectRatio: (interaction.options.getString('aspect_ratio') ?? undefined) as AspectRatio | undefined,
+        variantCount: interaction.options.getInteger('variants') ?? undefined,
+        style: (interaction.options.getString('style') ?? undefined) as StylePreset | undefined,
+        negativePrompt: interaction.options.getString('negative_prompt') ?? undefined,
+        preset: preset?.name,
+        provider: (interaction.options.getString('provider') ?? undefined) as ProviderName | undefined
+    });
+
+    // Sent after the result, since a follow-up to a deferred reply would replace the status message
+    if (skipped.length > 0) {
+        await interaction.followUp({ 
+            content: `⚠️ Some references were left out:\n${skipped.map(reason => `- ${reason}`).join('\n')}`, 
+            ephemeral: true 
+        });
+    }
+}
@@ -0,0 +1,186 @@
+import {
+    SlashCommandBuilder,
+    ChatInputCommandInteraction,
+    AutocompleteInteraction,
+    ChannelType,
+    EmbedBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+import {
+    MAX_BLOCKED_TERMS,
+    formatRefusalReason,
+    getModerationSettings,
+    getRecentRefusals,
+    updateModerationSettings,
+    validateTerm
+} from '../moderation.js';
+
+export const data = new SlashCommandBuilder()
+    .setName('moderation')
+    .setDescription('Prompt blocklist and review of refused generations')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('blocklist')
+            .setDescription('Show the blocked terms and the log channel')
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('block')
+            .setDescription('Refuse prompts containing a word or phrase')
+            .addStringOption(option =>
+                option.setName('term')
+                    .setDescription('Word or phrase (whole-word match), or /regular expression/')
+                    .setRequired(true)
+                    .setMaxLength(100)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('unblock')
+            .setDescription('Remove a term from the blocklist')
+            .addStringOption(option =>
+                option.setName('term')
+                    .setDescription('Blocked term')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('log-channel')
+            .setDescription('Post refused generations to a channel for review; leave empty to stop')
+            .addChannelOption(option =>
+                option.setName('channel')
+                    .setDescription('Channel for refusal reports')
+                    .addChannelTypes(ChannelType.GuildText)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('refusals')
+            .setDescription('Show recently refused generations')
+            .addUserOption(option =>
+                option.setName('user')
+                    .setDescription('Only this user\'s refusals')
+            )
+    );
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+    if (!interaction.guildId) {
+        await interaction.respond([]);
+        return;
+    }
+
+    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const { blockedTerms } = await getModerationSettings(interaction.guildId);
+    await interaction.respond(
+        blockedTerms
+            .filter(term => term.toLowerCase().includes(focusedValue))
+            .slice(0, 25)
+            .map(term => ({ name: term.slice(0, 100), value: term.slice(0, 100) }))
+    );
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guildId) {
+        await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'blocklist') {
+        await handleBlocklist(interaction, interaction.guildId);
+    } else if (subcommand === 'block') {
+        await handleBlock(interaction, interaction.guildId);
+    } else if (subcommand === 'unblock') {
+        await handleUnblock(interaction, interaction.guildId);
+    } else if (subcommand === 'log-channel') {
+        await handleLogChannel(interaction, interaction.guildId);
+    } else if (subcommand === 'refusals') {
+        await handleRefusals(interaction, interaction.guildId);
+    }
+}
+
+async function handleBlocklist(interaction: ChatInputCommandInteraction, guildId: string) {
+    const { blockedTerms, logChannelId } = await getModerationSettings(guildId);
+
+    const embed = new EmbedBuilder()
+        .setTitle('Prompt Blocklist')
+        .setColor(0xED4245)
+        .setDescription(blockedTerms.length > 0
+            ? blockedTerms.map(term => `• \`${term}\``).join('\n').slice(0, 4000)
+            : 'No terms are blocked. Provider safety filters still apply.')
+        .addFields({ name: 'Refusal log', value: logChannelId ? `<#${logChannelId}>` : '*not set*' });
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handleBlock(interaction: ChatInputCommandInteraction, guildId: string) {
+    const term = interaction.options.getString('term', true).trim();
+
+    const error = validateTerm(term);
+    if (error) {
+        await interaction.reply({ content: `❌ ${error}`, ephemeral: true });
+        return;
+    }
+
+    const { blockedTerms } = await getModerationSettings(guildId);
+    if (blockedTerms.some(existing => existing.toLowerCase() === term.toLowerCase())) {
+        await interaction.reply({ content: `\`${term}\` is already blocked.`, ephemeral: true });
+        return;
+    }
+    if (blockedTerms.length >= MAX_BLOCKED_TERMS) {
+        await interaction.reply({ content: `The blocklist is full (${MAX_BLOCKED_TERMS} terms). Remove some first.`, ephemeral: true });
+        return;
+    }
+
+    await updateModerationSettings(guildId, settings => ({ ...settings, blockedTerms: [...settings.blockedTerms, term] }));
+    await interaction.reply({ content: `🚫 Prompts containing \`${term}\` will now be refused.`, ephemeral: true });
+}
+
+async function handleUnblock(interaction: ChatInputCommandInteraction, guildId: string) {
+    const term = interaction.options.getString('term', true).trim();
+    const { blockedTerms } = await getModerationSettings(guildId);
+    const remaining = blockedTerms.filter(existing => existing.toLowerCase() !== term.toLowerCase());
+
+    if (remaining.length === blockedTerms.length) {
+        await interaction.reply({ content: `\`${term}\` isn't on the blocklist.`, ephemeral: true });
+        return;
+    }
+
+    await updateModerationSettings(guildId, settings => ({ ...settings, blockedTerms: remaining }));
+    await interaction.reply({ content: `✅ \`${term}\` removed from the blocklist.`, ephemeral: true });
+}
+
+async function handleLogChannel(interaction: ChatInputCommandInteraction, guildId: string) {
+    const channel = interaction.options.getChannel('channel');
+
+    await updateModerationSettings(guildId, settings => ({ ...settings, logChannelId: channel?.id }));
+    await interaction.reply({
+        content: channel
+            ? `📋 Refused generations will be posted to <#${channel.id}>.`
+            : '📋 Refused generations are no longer posted to a channel. They are still recorded; see `/moderation refusals`.',
+        ephemeral: true
+    });
+}
+
+async function handleRefusals(interaction: ChatInputCommandInteraction, guildId: string) {
+    const user = interaction.options.getUser('user');
+    const refusals = await getRecentRefusals(guildId, 10, user?.id);
+
+    const embed = new EmbedBuilder()
+        .setTitle(user ? `Refused generations by ${user.tag}` : 'Recently refused generations')
+        .setColor(0xED4245)
+        .setDescription(refusals.length > 0
+            ? refusals.map(refusal => {
+                const when = Math.floor(new Date(refusal.timestamp).getTime() / 1000);
+                const prompt = refusal.prompt.length > 120 ? `${refusal.prompt.slice(0, 119)}…` : refusal.prompt;
+                return `**#${refusal.id}** <t:${when}:R> · <@${refusal.userId}>\n${formatRefusalReason(refusal)}\n> ${prompt.replace(/\n/g, ' ')}`;
+            }).join('\n\n').slice(0, 4000)
+            : 'No refusals recorded.');
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
@@ -0,0 +1,203 @@
+import {
+    SlashCommandBuilder,
+    ChatInputCommandInteraction,
+    AutocompleteInteraction,
+    EmbedBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+import {
+    BUILT_IN_PERSONAS,
+    DEFAULT_PERSONA,
+    MAX_PERSONA_PROMPT_LENGTH,
+    PersonaScope,
+    definePersona,
+    deletePersona,
+    getPersona,
+    getSelectedPersonaName,
+    listPersonas,
+    normalizePersonaName,
+    selectPersona
+} from '../personas.js';
+
+const SCOPE_CHOICES = [
+    { name: 'This channel', value: 'channel' },
+    { name: 'Whole server', value: 'guild' }
+];
+
+export const data = new SlashCommandBuilder()
+    .setName('persona')
+    .setDescription('Choose or define the system prompt used for chat')
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('list')
+            .setDescription('Show available personas and which one is active here')
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('use')
+            .setDescription('Use a persona in this channel or the whole server')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Persona name')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+            .addStringOption(option =>
+                option.setName('scope')
+                    .setDescription('Where it applies (default: this channel)')
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('clear')
+            .setDescription('Remove the persona choice so the server (or default) persona applies')
+            .addStringOption(option =>
+                option.setName('scope')
+                    .setDescription('Which choice to remove (default: this channel)')
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('define')
+            .setDescription('Create or replace a persona for this server (Manage Server)')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Persona name')
+                    .setRequired(true)
+                    .setMaxLength(32)
+            )
+            .addStringOption(option =>
+                option.setName('prompt')
+                    .setDescription('System prompt the model follows')
+                    .setRequired(true)
+                    .setMaxLength(MAX_PERSONA_PROMPT_LENGTH)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('delete')
+            .setDescription('Delete one of this server\'s personas (Manage Server)')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Persona name')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    );
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const personas = await listPersonas(interaction.guildId);
+    await interaction.respond(
+        personas
+            .filter(persona => persona.name.includes(focusedValue))
+            .slice(0, 25)
+            .map(persona => ({ name: persona.name, value: persona.name }))
+    );
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guildId || !interaction.memberPermissions) {
+        await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const scope = (interaction.options.getString('scope') ?? 'channel') as PersonaScope;
+
+    // Channel choices need Manage Channels; server-wide changes need Manage Server
+    const required = subcommand === 'define' || subcommand === 'delete' || scope === 'guild'
+        ? PermissionFlagsBits.ManageGuild
+        : PermissionFlagsBits.ManageChannels;
+    if (subcommand !== 'list' && !interaction.memberPermissions.has(required)) {
+        const permission = required === PermissionFlagsBits.ManageGuild ? 'Manage Server' : 'Manage Channels';
+        await interaction.reply({ content: `You need the **${permission}** permission to do that.`, ephemeral: true });
+        return;
+    }
+
+    if (subcommand === 'list') {
+        await handleList(interaction, interaction.guildId);
+    } else if (subcommand === 'use') {
+        await handleUse(interaction, interaction.guildId, scope);
+    } else if (subcommand === 'clear') {
+        await handleClear(interaction, interaction.guildId, scope);
+    } else if (subcommand === 'define') {
+        await handleDefine(interaction, interaction.guildId);
+    } else if (subcommand === 'delete') {
+        await handleDelete(interaction, interaction.guildId);
+    }
+}
+
+async function handleList(interaction: ChatInputCommandInteraction, guildId: string) {
+    const personas = await listPersonas(guildId);
+    const channelChoice = await getSelectedPersonaName('channel', interaction.channelId);
+    const guildChoice = await getSelectedPersonaName('guild', guildId);
+    const active = channelChoice ?? guildChoice ?? DEFAULT_PERSONA;
+
+    const embed = new EmbedBuilder()
+        .setTitle('Chat Personas')
+        .setColor(0x5865F2)
+        .setDescription(personas.map(persona => {
+            const marker = persona.name === active ? '▶️ ' : '';
+            const origin = persona.createdBy ? 'custom' : 'built-in';
+            const prompt = persona.prompt.length > 120 ? `${persona.prompt.slice(0, 119)}…` : persona.prompt;
+            return `${marker}**${persona.name}** (${origin})\n${prompt}`;
+        }).join('\n\n').slice(0, 4000))
+        .addFields(
+            { name: 'This channel', value: channelChoice ? `\`${channelChoice}\`` : '*server default*', inline: true },
+            { name: 'Server', value: `\`${guildChoice ?? DEFAULT_PERSONA}\``, inline: true }
+        );
+
+    await interaction.reply({ embeds: [embed] });
+}
+
+async function handleUse(interaction: ChatInputCommandInteraction, guildId: string, scope: PersonaScope) {
+    const name = interaction.options.getString('name', true);
+    const persona = await getPersona(guildId, name);
+
+    if (!persona) {
+        await interaction.reply({ content: `Unknown persona \`${name}\`. See \`/persona list\`.`, ephemeral: true });
+        return;
+    }
+
+    await selectPersona(scope, scope === 'guild' ? guildId : interaction.channelId, persona.name);
+    const where = scope === 'guild' ? 'this server' : 'this channel';
+    await interaction.reply(`🎭 Chat in ${where} now uses the **${persona.name}** persona. Existing conversations pick it up on their next message.`);
+}
+
+async function handleClear(interaction: ChatInputCommandInteraction, guildId: string, scope: PersonaScope) {
+    await selectPersona(scope, scope === 'guild' ? guildId : interaction.channelId, null);
+    const fallback = scope === 'guild' ? `the default **${DEFAULT_PERSONA}** persona` : 'the server persona';
+    await interaction.reply(`🎭 Persona choice cleared; chat here falls back to ${fallback}.`);
+}
+
+async function handleDefine(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = normalizePersonaName(interaction.options.getString('name', true));
+    const prompt = interaction.options.getString('prompt', true).trim();
+
+    if (!/^[a-z0-9-]+$/.test(name)) {
+        await interaction.reply({ content: 'Persona names may only contain letters, numbers and dashes.', ephemeral: true });
+        return;
+    }
+
+    const existing = await getPersona(guildId, name);
+    await definePersona(guildId, { name, prompt, createdBy: interaction.user.id });
+
+    const note = name in BUILT_IN_PERSONAS && !existing?.createdBy
+        ? ' It replaces the built-in persona of the same name on this server.'
+        : '';
+    await interaction.reply(`🎭 Persona **${name}** ${existing?.createdBy ? 'updated' : 'created'}.${note} Use \`/persona use name:${name}\` to switch to it.`);
+}
+
+async function handleDelete(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = interaction.options.getString('name', true);
+
+    if (!(await deletePersona(guildId, name))) {
+        await interaction.reply({ content: `\`${name}\` isn't a custom persona on this server (built-in personas can't be deleted).`, ephemeral: true });
+        return;
+    }
+    await interaction.reply(`🗑️ Persona **${normalizePersonaName(name)}** deleted. Channels that used it fall back to the server or default persona.`);
+}
@@ -0,0 +1,235 @@
+import {
+    SlashCommandBuilder,
+    ChatInputCommandInteraction,
+    AutocompleteInteraction,
+    EmbedBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+import { ASPECT_RATIOS } from '../providers/index.js';
+import { MAX_VARIANT_COUNT } from '../generation.js';
+import {
+    BUILT_IN_PRESETS,
+    MAX_PRESET_TEMPLATE_LENGTH,
+    definePreset,
+    deletePreset,
+    getDefaultPresetName,
+    getPreset,
+    isAspectRatio,
+    listPresets,
+    normalizePresetName,
+    setDefaultPreset
+} from '../prompt-presets.js';
+
+export const data = new SlashCommandBuilder()
+    .setName('preset')
+    .setDescription('Manage prompt presets for image generation')
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('list')
+            .setDescription('Show available presets and the server default')
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('show')
+            .setDescription('Show a preset\'s template and settings')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Preset name')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('define')
+            .setDescription('Create or replace a preset for this server (Manage Server)')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Preset name')
+                    .setRequired(true)
+                    .setMaxLength(32)
+            )
+            .addStringOption(option =>
+                option.setName('template')
+                    .setDescription('System instructions for the image model; {prompt} is replaced with the user\'s prompt')
+                    .setRequired(true)
+                    .setMaxLength(MAX_PRESET_TEMPLATE_LENGTH)
+            )
+            .addStringOption(option =>
+                option.setName('aspect_ratio')
+                    .setDescription('Default aspect ratio')
+                    .setRequired(true)
+                    .addChoices(...ASPECT_RATIOS.map(ratio => ({ name: ratio, value: ratio })))
+            )
+            .addIntegerOption(option =>
+                option.setName('variants')
+                    .setDescription('Default number of variants')
+                    .setRequired(true)
+                    .setMinValue(1)
+                    .setMaxValue(MAX_VARIANT_COUNT)
+            )
+            .addStringOption(option =>
+                option.setName('description')
+                    .setDescription('Short description shown in lists')
+                    .setMaxLength(100)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('delete')
+            .setDescription('Delete one of this server\'s presets (Manage Server)')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Preset name')
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('default')
+            .setDescription('Set the preset used when none is named; leave empty to clear (Manage Server)')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Preset name')
+                    .setAutocomplete(true)
+            )
+    );
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const presets = await listPresets(interaction.guildId);
+    await interaction.respond(
+        presets
+            .filter(preset => preset.name.includes(focusedValue))
+            .slice(0, 25)
+            .map(preset => ({ name: `${preset.name} – ${preset.description}`.slice(0, 100), value: preset.name }))
+    );
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guildId || !interaction.memberPermissions) {
+        await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand !== 'list' && subcommand !== 'show' && !interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)) {
+        await interaction.reply({ content: 'You need the **Manage Server** permission to do that.', ephemeral: true });
+        return;
+    }
+
+    if (subcommand === 'list') {
+        await handleList(interaction, interaction.guildId);
+    } else if (subcommand === 'show') {
+        await handleShow(interaction, interaction.guildId);
+    } else if (subcommand === 'define') {
+        await handleDefine(interaction, interaction.guildId);
+    } else if (subcommand === 'delete') {
+        await handleDelete(interaction, interaction.guildId);
+    } else if (subcommand === 'default') {
+        await handleDefault(interaction, interaction.guildId);
+    }
+}
+
+async function handleList(interaction: ChatInputCommandInteraction, guildId: string) {
+    const presets = await listPresets(guildId);
+    const defaultName = await getDefaultPresetName(guildId);
+
+    const embed = new EmbedBuilder()
+        .setTitle('Prompt Presets')
+        .setColor(0x5865F2)
+        .setDescription(presets.map(preset => {
+            const marker = preset.name === defaultName ? '⭐ ' : '';
+            const origin = preset.createdBy ? 'custom' : 'built-in';
+            return `${marker}**${preset.name}** (${origin}) · ${preset.aspectRatio} · ${preset.variantCount} variant(s)\n${preset.description}`;
+        }).join('\n\n').slice(0, 4000))
+        .addFields({ name: 'Server default', value: defaultName ? `\`${defaultName}\`` : '*none*' })
+        .setFooter({ text: 'Use one with /imagine preset:<name> or "preset:<name>" in a mention' });
+
+    await interaction.reply({ embeds: [embed] });
+}
+
+async function handleShow(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = interaction.options.getString('name', true);
+    const preset = await getPreset(guildId, name);
+
+    if (!preset) {
+        await interaction.reply({ content: `Unknown preset \`${name}\`. See \`/preset list\`.`, ephemeral: true });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Preset: ${preset.name}`)
+        .setColor(0x5865F2)
+        .setDescription(`${preset.description}\n\`\`\`\n${preset.template}\n\`\`\``)
+        .addFields(
+            { name: 'Aspect ratio', value: preset.aspectRatio, inline: true },
+            { name: 'Variants', value: String(preset.variantCount), inline: true },
+            { name: 'Origin', value: preset.createdBy ? `custom, by <@${preset.createdBy}>` : 'built-in', inline: true }
+        );
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handleDefine(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = normalizePresetName(interaction.options.getString('name', true));
+    const template = interaction.options.getString('template', true).trim();
+    const aspectRatio = interaction.options.getString('aspect_ratio', true);
+    const variantCount = interaction.options.getInteger('variants', true);
+
+    if (!/^[a-z0-9-]+$/.test(name)) {
+        await interaction.reply({ content: 'Preset names may only contain letters, numbers and dashes.', ephemeral: true });
+        return;
+    }
+    if (!isAspectRatio(aspectRatio)) {
+        await interaction.reply({ content: `Unsupported aspect ratio \`${aspectRatio}\`.`, ephemeral: true });
+        return;
+    }
+
+    const existing = await getPreset(guildId, name);
+    await definePreset(guildId, {
+        name,
+        description: interaction.options.getString('description')?.trim() || existing?.description || 'Custom preset',
+        template,
+        aspectRatio,
+        variantCount,
+        createdBy: interaction.user.id
+    });
+
+    const note = name in BUILT_IN_PRESETS && !existing?.createdBy
+        ? ' It replaces the built-in preset of the same name on this server.'
+        : '';
+    await interaction.reply(`🖼️ Preset **${name}** ${existing?.createdBy ? 'updated' : 'created'} (${aspectRatio}, ${variantCount} variant(s)).${note} Use it with \`/imagine preset:${name}\`.`);
+}
+
+async function handleDelete(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = interaction.options.getString('name', true);
+
+    if (!(await deletePreset(guildId, name))) {
+        await interaction.reply({ content: `\`${name}\` isn't a custom preset on this server (built-in presets can't be deleted).`, ephemeral: true });
+        return;
+    }
+    await interaction.reply(`🗑️ Preset **${normalizePresetName(name)}** deleted.`);
+}
+
+async function handleDefault(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = interaction.options.getString('name');
+
+    if (!name) {
+        await setDefaultPreset(guildId, null);
+        await interaction.reply('🖼️ Default preset cleared; generations without a preset use the standard instructions (16:9).');
+        return;
+    }
+
+    const preset = await getPreset(guildId, name);
+    if (!preset) {
+        await interaction.reply({ content: `Unknown preset \`${name}\`. See \`/preset list\`.`, ephemeral: true });
+        return;
+    }
+
+    await setDefaultPreset(guildId, preset.name);
+    await interaction.reply(`🖼️ Generations on this server now use the **${preset.name}** preset unless another one is named.`);
+}
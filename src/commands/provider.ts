@@ -0,0 +1,86 @@
+import { 
+    SlashCommandBuilder, 
+    ChatInputCommandInteraction, 
+    EmbedBuilder, 
+    PermissionFlagsBits
+} from 'discord.js';
+import { 
+    PROVIDER_NAMES, 
+    getAvailableProviders, 
+    getGuildProvider, 
+    isProviderName, 
+    setGuildProvider 
+} from '../providers/index.js';
+
+export const data = new SlashCommandBuilder()
+    .setName('provider')
+    .setDescription('Choose which image provider this server uses')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('view')
+            .setDescription('Show the current image provider')
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('set')
+            .setDescription('Set the preferred image provider')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('Image provider')
+                    .setRequired(true)
+                    .addChoices(...PROVIDER_NAMES.map(name => ({ name, value: name })))
+            )
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.guildId) {
+        await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'view') {
+        await handleView(interaction, interaction.guildId);
+    } else if (subcommand === 'set') {
+        await handleSet(interaction, interaction.guildId);
+    }
+}
+
+async function handleView(interaction: ChatInputCommandInteraction, guildId: string) {
+    const current = await getGuildProvider(guildId);
+    const available = getAvailableProviders();
+
+    const embed = new EmbedBuilder()
+        .setTitle('Image Provider')
+        .setColor(0x5865F2)
+        .addFields(
+            { name: 'Preferred', value: `\`${current}\``, inline: true },
+            { name: 'Configured', value: available.map(name => `\`${name}\``).join(', ') || 'None', inline: true }
+        )
+        .setFooter({ text: 'Other configured providers are used as fallback when the preferred one is rate limited.' });
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handleSet(interaction: ChatInputCommandInteraction, guildId: string) {
+    const name = interaction.options.getString('name', true);
+
+    if (!isProviderName(name)) {
+        await interaction.reply({ content: `Unknown provider: \`${name}\``, ephemeral: true });
+        return;
+    }
+
+    if (!getAvailableProviders().includes(name)) {
+        await interaction.reply({ 
+            content: `Provider \`${name}\` has no API key configured on the bot.`, 
+            ephemeral: true 
+        });
+        return;
+    }
+
+    await setGuildProvider(guildId, name);
+    await interaction.reply({ content: `Image provider set to \`${name}\`.`, ephemeral: true });
+}
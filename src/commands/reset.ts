@@ -0,0 +1,17 @@
+import {
+    SlashCommandBuilder,
+    ChatInputCommandInteraction
+} from 'discord.js';
+import { resetConversations } from '../conversation.js';
+
+export const data = new SlashCommandBuilder()
+    .setName('reset')
+    .setDescription('Make the bot forget the chat context in this channel or thread');
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const removed = await resetConversations(interaction.channelId);
+
+    await interaction.reply(removed > 0
+        ? '🧹 Chat context cleared. Replies to earlier bot messages here start a fresh conversation.'
+        : 'There is no chat context to clear here.');
+}
@@ -0,0 +1,236 @@
+import { 
+    SlashCommandBuilder, 
+    ChatInputCommandInteraction, 
+    EmbedBuilder, 
+    PermissionFlagsBits, 
+    User
+} from 'discord.js';
+import { 
+    LimitSetting, 
+    QuotaSubject, 
+    QuotaWindow, 
+    getGuildQuotaConfig, 
+    getUsageReport, 
+    resetUsage, 
+    updateGuildQuotaConfig 
+} from '../quota.js';
+
+export const data = new SlashCommandBuilder()
+    .setName('usage')
+    .setDescription('Image and token usage quotas')
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('view')
+            .setDescription('Show remaining generation budget')
+            .addUserOption(option =>
+                option.setName('user')
+                    .setDescription('User to inspect (admins only, defaults to you)')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('set-limit')
+            .setDescription('Set a quota (admins only). Leave images and tokens empty to remove the limit.')
+            .addStringOption(option =>
+                option.setName('scope')
+                    .setDescription('Who the limit applies to')
+                    .setRequired(true)
+                    .addChoices(
+                        { name: 'Each user (default)', value: 'user' },
+                        { name: 'Members with a role', value: 'role' },
+                        { name: 'Whole server', value: 'guild' }
+                    )
+            )
+            .addStringOption(option =>
+                option.setName('window')
+                    .setDescription('Rolling window')
+                    .setRequired(true)
+                    .addChoices(
+                        { name: 'Daily (24h)', value: 'daily' },
+                        { name: 'Monthly (30d)', value: 'monthly' }
+                    )
+            )
+            .addIntegerOption(option =>
+                option.setName('images')
+                    .setDescription('Maximum images in the window')
+                    .setMinValue(0)
+            )
+            .addIntegerOption(option =>
+                option.setName('tokens')
+                    .setDescription('Maximum tokens in the window')
+                    .setMinValue(0)
+            )
+            .addRoleOption(option =>
+                option.setName('role')
+                    .setDescription('Role, when scope is "Members with a role"')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('exempt')
+            .setDescription('Exempt a user from all quotas (admins only)')
+            .addUserOption(option =>
+                option.setName('user')
+                    .setDescription('User')
+                    .setRequired(true)
+            )
+            .addBooleanOption(option =>
+                option.setName('exempt')
+                    .setDescription('Whether the user is exempt')
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand
+            .setName('reset')
+            .setDescription("Clear a user's recorded usage (admins only)")
+            .addUserOption(option =>
+                option.setName('user')
+                    .setDescription('User')
+                    .setRequired(true)
+            )
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inCachedGuild()) {
+        await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const isAdmin = interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild);
+
+    if (subcommand !== 'view' && !isAdmin) {
+        await interaction.reply({ content: 'You need the Manage Server permission to change quotas.', ephemeral: true });
+        return;
+    }
+
+    if (subcommand === 'view') {
+        await handleView(interaction, isAdmin);
+    } else if (subcommand === 'set-limit') {
+        await handleSetLimit(interaction);
+    } else if (subcommand === 'exempt') {
+        await handleExempt(interaction);
+    } else if (subcommand === 'reset') {
+        await handleReset(interaction);
+    }
+}
+
+async function toSubject(interaction: ChatInputCommandInteraction<'cached'>, user: User): Promise<QuotaSubject> {
+    const member = await interaction.guild.members.fetch(user.id).catch(() => null);
+    return {
+        guildId: interaction.guildId,
+        userId: user.id,
+        roleIds: member ? Array.from(member.roles.cache.keys()) : []
+    };
+}
+
+async function handleView(interaction: ChatInputCommandInteraction<'cached'>, isAdmin: boolean) {
+    const user = interaction.options.getUser('user') ?? interaction.user;
+
+    if (user.id !== interaction.user.id && !isAdmin) {
+        await interaction.reply({ content: "You can only view your own usage.", ephemeral: true });
+        return;
+    }
+
+    const subject = await toSubject(interaction, user);
+    const report = await getUsageReport(subject);
+    const config = await getGuildQuotaConfig(interaction.guildId);
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Usage: ${user.username}`)
+        .setColor(0x5865F2)
+        .setTimestamp();
+
+    for (const line of report) {
+        embed.addFields({
+            name: `${line.scope === 'user' ? 'User' : 'Server'} – ${line.window}`,
+            value: [
+                `Images: ${formatRemaining(line.used.images, line.limit.images)}`,
+                `Tokens: ${formatRemaining(line.used.tokens, line.limit.tokens)}`
+            ].join('\n'),
+            inline: true
+        });
+    }
+
+    if (config.exemptUsers?.includes(user.id)) {
+        embed.setDescription('This user is exempt from quotas.');
+    }
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handleSetLimit(interaction: ChatInputCommandInteraction<'cached'>) {
+    const scope = interaction.options.getString('scope', true);
+    const window = interaction.options.getString('window', true) as QuotaWindow;
+    const role = interaction.options.getRole('role');
+
+    if (scope === 'role' && !role) {
+        await interaction.reply({ content: 'Pick a `role` when the scope is "Members with a role".', ephemeral: true });
+        return;
+    }
+
+    // With neither option the window's limits are removed; otherwise only the given fields change
+    const images = interaction.options.getInteger('images');
+    const tokens = interaction.options.getInteger('tokens');
+    const change: LimitSetting = images === null && tokens === null
+        ? { images: null, tokens: null }
+        : { ...(images !== null ? { images } : {}), ...(tokens !== null ? { tokens } : {}) };
+
+    let limit: LimitSetting = change;
+    await updateGuildQuotaConfig(interaction.guildId, config => {
+        if (scope === 'role') {
+            config.roles ??= {};
+            limit = { ...config.roles[role!.id]?.[window], ...change };
+            config.roles[role!.id] = { ...config.roles[role!.id], [window]: limit };
+        } else if (scope === 'user' || scope === 'guild') {
+            limit = { ...config[scope]?.[window], ...change };
+            config[scope] = { ...config[scope], [window]: limit };
+        }
+    });
+
+    const target = scope === 'role' ? `members of ${role}` : scope === 'user' ? 'each user' : 'the whole server';
+    await interaction.reply({ 
+        content: `Set the ${window} quota for ${target} to ${formatLimit(limit)}.`, 
+        ephemeral: true 
+    });
+}
+
+async function handleExempt(interaction: ChatInputCommandInteraction<'cached'>) {
+    const user = interaction.options.getUser('user', true);
+    const exempt = interaction.options.getBoolean('exempt', true);
+
+    await updateGuildQuotaConfig(interaction.guildId, config => {
+        const exemptUsers = new Set(config.exemptUsers ?? []);
+        if (exempt) exemptUsers.add(user.id);
+        else exemptUsers.delete(user.id);
+        config.exemptUsers = Array.from(exemptUsers);
+    });
+
+    await interaction.reply({ 
+        content: exempt ? `${user} is now exempt from quotas.` : `${user} is subject to quotas again.`, 
+        ephemeral: true 
+    });
+}
+
+async function handleReset(interaction: ChatInputCommandInteraction<'cached'>) {
+    const user = interaction.options.getUser('user', true);
+    await resetUsage(await toSubject(interaction, user));
+    await interaction.reply({
+        content: `Cleared recorded usage for ${user}. Server-wide usage isn't tracked per user, so what they used still counts towards the server quota.`,
+        ephemeral: true
+    });
+}
+
+function formatRemaining(used: number, limit: number | undefined): string {
+    if (limit === undefined) return `${used} used (unlimited)`;
+    return `${Math.max(limit - used, 0)} left (${used}/${limit})`;
+}
+
+function formatLimit(limit: LimitSetting): string {
+    const parts: string[] = [];
+    if (limit.images !== undefined) parts.push(limit.images === null ? 'unlimited images' : `${limit.images} images`);
+    if (limit.tokens !== undefined) parts.push(limit.tokens === null ? 'unlimited tokens' : `${limit.tokens} tokens`);
+    return parts.length > 0 ? parts.join(', ') : 'unlimited';
+}
@@ -0,0 +1,72 @@
+// The single path every config change takes: validate, update the backend, record in the audit log
+
+import { Client } from 'discord.js';
+import { ConfigKey, Env, fetchConfig, updateConfig } from './config-service.js';
+import { AuditEntry, AuditSource, appendAuditEntries, postAuditEntries } from './audit-log.js';
+import { validateUpdates } from './config-schema.js';
+
+export interface ChangeActor {
+    userId: string;
+    userTag: string;
+    approvedBy?: string;
+}
+
+export interface AppliedChange {
+    /** Values the changed keys held before the update */
+    oldValues: Record<string, unknown>;
+    /** One entry per key; empty when the audit log couldn't be written */
+    auditEntries: AuditEntry[];
+    /** Set when the backend update went through but recording it in the audit log failed */
+    auditError?: Error;
+}
+
+/**
+ * Validate `updates` against the environment's current values, apply them in one update and
+ * record an audit entry per key. Throws if the current values can't be read, validation fails
+ * or the backend request fails. Once the backend has the change nothing is thrown: a failed
+ * audit write is reported through `auditError` instead.
+ */
+export async function applyConfigChanges(
+    client: Client,
+    env: Env,
+    updates: Partial<Record<ConfigKey, unknown>>,
+    actor: ChangeActor,
+    source: AuditSource
+): Promise<AppliedChange> {
+    // Old values are needed for validation, the audit log (rollback) and scheduled reverts,
+    // so a change that can't read them is refused rather than applied blind
+    let before: Record<string, unknown>;
+    try {
+        before = (await fetchConfig(env)).configs;
+    } catch (error: any) {
+        throw new Error(`Couldn't read the current ${env} config, so nothing was changed: ${error.message}`, { cause: error });
+    }
+
+    // Checked again here because values may have changed since the request was made
+    const errors = validateUpdates(before, updates);
+    if (errors.length > 0) {
+        throw new Error(errors.join('; '));
+    }
+
+    const backendResponse = await updateConfig(env, updates);
+
+    const oldValues = Object.fromEntries(Object.keys(updates).map(key => [key, before[key]]));
+    let auditEntries: AuditEntry[];
+    try {
+        auditEntries = await appendAuditEntries(Object.entries(updates).map(([key, value]) => ({
+            ...actor,
+            env,
+            key,
+            oldValue: before[key],
+            newValue: value,
+            source,
+            response: backendResponse
+        })));
+    } catch (error: any) {
+        console.error(`Config change in ${env} was applied but not recorded in the audit log:`, error);
+        return { oldValues, auditEntries: [], auditError: error };
+    }
+    await postAuditEntries(client, auditEntries);
+
+    return { oldValues, auditEntries };
+}
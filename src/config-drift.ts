@@ -0,0 +1,193 @@
+// Background snapshots of each environment's config: key drift against CONFIG_DEFAULTS
+// and change notifications for edits that didn't go through /config
+
+import { Client, EmbedBuilder } from 'discord.js';
+import { CONFIG_DEFAULTS, Env, fetchConfig, isEnvConfigured } from './config-service.js';
+import { getEnvColor, getEnvironmentNames } from './environments.js';
+import { getAuditEntriesSince, formatAuditValue } from './audit-log.js';
+import { createStore } from './storage/index.js';
+
+export interface ConfigSnapshot {
+    env: Env;
+    /** ISO time the fetch started */
+    takenAt: string;
+    configs: Record<string, unknown>;
+    defaults: Record<string, unknown>;
+    /** Drift last posted to the ops channel, so the same report isn't repeated every poll */
+    reportedDrift: string;
+}
+
+export interface DriftReport {
+    /** Keys the backend knows about that CONFIG_DEFAULTS doesn't */
+    backendOnly: string[];
+    /** Keys in CONFIG_DEFAULTS missing from the backend's configs and defaults */
+    localOnly: string[];
+    /** Keys whose backend default differs from CONFIG_DEFAULTS */
+    defaultMismatch: string[];
+}
+
+export interface ValueChange {
+    key: string;
+    oldValue: unknown;
+    newValue: unknown;
+}
+
+const DEFAULT_INTERVAL_MS = 5 * 60_000;
+
+// Latest snapshot per environment: env -> snapshot
+const snapshots = createStore<ConfigSnapshot>('config-snapshots');
+
+export function getSnapshotIntervalMs(): number {
+    const value = Number(process.env.CONFIG_SNAPSHOT_INTERVAL_MS ?? DEFAULT_INTERVAL_MS);
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_INTERVAL_MS;
+}
+
+export async function getLatestSnapshot(env: Env): Promise<ConfigSnapshot | undefined> {
+    return snapshots.get(env);
+}
+
+export function computeDrift(configs: Record<string, unknown>, defaults: Record<string, unknown>): DriftReport {
+    const local = new Set(Object.keys(CONFIG_DEFAULTS));
+    const backend = new Set([...Object.keys(configs), ...Object.keys(defaults)]);
+
+    return {
+        backendOnly: Array.from(backend).filter(key => !local.has(key)).sort(),
+        localOnly: Array.from(local).filter(key => !backend.has(key)).sort(),
+        defaultMismatch: Array.from(local)
+            .filter(key => key in defaults && !valuesEqual(defaults[key], CONFIG_DEFAULTS[key as keyof typeof CONFIG_DEFAULTS]))
+            .sort()
+    };
+}
+
+export function hasDrift(report: DriftReport): boolean {
+    return report.backendOnly.length + report.localOnly.length + report.defaultMismatch.length > 0;
+}
+
+export function formatDrift(report: DriftReport, defaults: Record<string, unknown>): string[] {
+    return [
+        ...report.backendOnly.map(key => `• \`${key}\` exists on the backend but not in CONFIG_DEFAULTS`),
+        ...report.localOnly.map(key => `• \`${key}\` is in CONFIG_DEFAULTS but missing on the backend`),
+        ...report.defaultMismatch.map(key =>
+            `• \`${key}\` default: backend \`${formatAuditValue(defaults[key])}\`, local \`${CONFIG_DEFAULTS[key as keyof typeof CONFIG_DEFAULTS]}\``)
+    ];
+}
+
+/**
+ * Fetch `env`, compare it with the previous snapshot and store the new one. Changes that
+ * match an audit entry recorded since the previous snapshot were made by the bot and are
+ * left out of the result.
+ */
+export async function takeSnapshot(env: Env): Promise<{ snapshot: ConfigSnapshot; previous?: ConfigSnapshot; external: ValueChange[] }> {
+    const takenAt = new Date().toISOString();
+    const result = await fetchConfig(env);
+    const previous = await snapshots.get(env);
+
+    const snapshot: ConfigSnapshot = {
+        env,
+        takenAt,
+        configs: result.configs,
+        defaults: (result.defaults ?? {}) as Record<string, unknown>,
+        reportedDrift: previous?.reportedDrift ?? ''
+    };
+
+    let external: ValueChange[] = [];
+    if (previous) {
+        const audited = await getAuditEntriesSince(env, previous.takenAt);
+        const keys = new Set([...Object.keys(previous.configs), ...Object.keys(snapshot.configs)]);
+
+        external = Array.from(keys)
+            .filter(key => !valuesEqual(previous.configs[key], snapshot.configs[key]))
+            .filter(key => !audited.some(entry => entry.key === key && valuesEqual(entry.newValue, snapshot.configs[key])))
+            .sort()
+            .map(key => ({ key, oldValue: previous.configs[key], newValue: snapshot.configs[key] }));
+    }
+
+    await snapshots.set(env, snapshot);
+    return { snapshot, previous, external };
+}
+
+/**
+ * Snapshot every configured environment on CONFIG_SNAPSHOT_INTERVAL_MS (0 disables it) and
+ * post external changes and new drift to CONFIG_OPS_CHANNEL_ID.
+ */
+export function startConfigMonitor(client: Client): void {
+    const intervalMs = getSnapshotIntervalMs();
+    const envs = getEnvironmentNames().filter(isEnvConfigured);
+    if (intervalMs === 0 || envs.length === 0) return;
+
+    console.log(`Config monitor: snapshotting ${envs.join(', ')} every ${intervalMs / 1000}s`);
+
+    for (const env of envs) {
+        let running = false;
+
+        const poll = async () => {
+            // A slow backend shouldn't stack up overlapping polls
+            if (running) return;
+            running = true;
+            try {
+                await pollEnv(client, env);
+            } catch (error) {
+                console.error(`Config snapshot for ${env} failed:`, error);
+            } finally {
+                running = false;
+            }
+        };
+
+        void poll();
+        setInterval(poll, intervalMs);
+    }
+}
+
+async function pollEnv(client: Client, env: Env): Promise<void> {
+    const { snapshot, external } = await takeSnapshot(env);
+
+    if (external.length > 0) {
+        const embed = new EmbedBuilder()
+            .setTitle(`Config changed outside the bot: ${env}`)
+            .setColor(getEnvColor(env))
+            .setDescription(external
+                .map(change => `\`${change.key}\`: \`${formatAuditValue(change.oldValue)}\` → \`${formatAuditValue(change.newValue)}\``)
+                .join('\n')
+                .slice(0, 4000))
+            .setFooter({ text: 'Not made via /config' })
+            .setTimestamp(new Date(snapshot.takenAt));
+        await postToOpsChannel(client, embed);
+    }
+
+    // Drift is only posted when it appears, changes or is resolved
+    const report = computeDrift(snapshot.configs, snapshot.defaults);
+    const signature = hasDrift(report) ? JSON.stringify(report) : '';
+    if (signature === snapshot.reportedDrift) return;
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Config drift: ${env}`)
+        .setColor(signature ? 0xFFA500 : 0x00FF00)
+        .setDescription(signature
+            ? formatDrift(report, snapshot.defaults).join('\n').slice(0, 4000)
+            : 'Backend keys and defaults match CONFIG_DEFAULTS again.')
+        .setTimestamp(new Date(snapshot.takenAt));
+    await postToOpsChannel(client, embed);
+
+    await snapshots.set(env, { ...snapshot, reportedDrift: signature });
+}
+
+/** Failures are logged, never thrown */
+async function postToOpsChannel(client: Client, embed: EmbedBuilder): Promise<void> {
+    const channelId = process.env.CONFIG_OPS_CHANNEL_ID;
+    if (!channelId) return;
+
+    try {
+        const channel = await client.channels.fetch(channelId);
+        if (!channel?.isSendable()) {
+            console.error(`Ops channel ${channelId} is not a text channel the bot can send to.`);
+            return;
+        }
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        console.error('Failed to post to ops channel:', error);
+    }
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,157 @@
+// Who may do what with /config: roles and users mapped to environments, actions and key prefixes
+
+import fs from 'fs';
+import path from 'path';
+import {
+    ButtonInteraction,
+    ChatInputCommandInteraction,
+    Client,
+    EmbedBuilder,
+    GuildMember,
+    PermissionFlagsBits
+} from 'discord.js';
+import { Env, isEnvironment } from './environments.js';
+import { postAuditNotice } from './audit-log.js';
+import { getRoleIds } from './discord-helpers.js';
+
+export const CONFIG_ACTIONS = ['view', 'edit', 'promote', 'rollback'] as const;
+export type ConfigAction = (typeof CONFIG_ACTIONS)[number];
+
+/**
+ * One allow rule. A rule applies to anyone listed in `users` or holding one of `roles`.
+ * Omitted `envs`/`actions` mean all of them; `keys` holds prefixes such as `marketplace.`
+ * (or `marketplace.*`) and, when omitted, allows every key.
+ */
+export interface PermissionRule {
+    name?: string;
+    roles?: string[];
+    users?: string[];
+    envs?: Env[];
+    actions?: ConfigAction[];
+    keys?: string[];
+}
+
+export interface AccessSubject {
+    userId: string;
+    userTag: string;
+    roleIds: string[];
+    /** Server administrators can always do everything */
+    isAdmin: boolean;
+}
+
+export type AccessResult = { allowed: true } | { allowed: false; reason: string };
+
+let rules: PermissionRule[] | null = null;
+
+function getPermissionsPath(): string {
+    return path.resolve(process.env.CONFIG_PERMISSIONS_FILE ?? 'config-permissions.json');
+}
+
+/**
+ * Rules from CONFIG_PERMISSIONS_FILE, read once. A missing or invalid file leaves no rules,
+ * so only administrators get access.
+ */
+export function getPermissionRules(): PermissionRule[] {
+    if (rules) return rules;
+
+    const file = getPermissionsPath();
+    try {
+        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+        rules = validateRules(Array.isArray(parsed) ? parsed : parsed?.rules);
+        console.log(`Loaded ${rules.length} /config permission rule(s) from ${file}`);
+    } catch (err: any) {
+        if (err.code !== 'ENOENT') {
+            console.error(`Ignoring invalid /config permissions file ${file}: ${err.message}`);
+        }
+        rules = [];
+    }
+    return rules;
+}
+
+function validateRules(value: unknown): PermissionRule[] {
+    if (!Array.isArray(value)) {
+        throw new Error('expected an array of rules or an object with a "rules" array');
+    }
+
+    return value.map((rule, index) => {
+        const label = rule?.name ?? `#${index + 1}`;
+        if (!rule || typeof rule !== 'object') throw new Error(`rule ${label} is not an object`);
+
+        for (const field of ['roles', 'users', 'envs', 'actions', 'keys'] as const) {
+            const list = rule[field];
+            if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+                throw new Error(`rule ${label}: "${field}" must be an array of strings`);
+            }
+        }
+        const badEnv = rule.envs?.find((env: string) => !isEnvironment(env));
+        if (badEnv) throw new Error(`rule ${label}: unknown env "${badEnv}"`);
+        const badAction = rule.actions?.find((action: string) => !(CONFIG_ACTIONS as readonly string[]).includes(action));
+        if (badAction) throw new Error(`rule ${label}: unknown action "${badAction}"`);
+
+        return rule as PermissionRule;
+    });
+}
+
+export function getAccessSubject(interaction: ChatInputCommandInteraction | ButtonInteraction): AccessSubject {
+    return {
+        userId: interaction.user.id,
+        userTag: interaction.user.tag,
+        roleIds: getRoleIds(interaction.member as GuildMember | { roles: string[] } | null),
+        isAdmin: interaction.memberPermissions?.has(PermissionFlagsBits.Administrator) ?? false
+    };
+}
+
+function keyMatches(key: string, prefix: string): boolean {
+    const normalized = prefix.endsWith('*') ? prefix.slice(0, -1) : prefix;
+    return key === normalized || key.startsWith(normalized);
+}
+
+/** Whether `subject` may perform `action` in `env`, on every one of `keys` if given. */
+export function checkConfigAccess(subject: AccessSubject, action: ConfigAction, env: Env, keys: string[] = []): AccessResult {
+    if (subject.isAdmin) return { allowed: true };
+
+    const matching = getPermissionRules().filter(rule =>
+        (rule.users?.includes(subject.userId) || rule.roles?.some(id => subject.roleIds.includes(id)))
+        && (!rule.envs || rule.envs.includes(env))
+        && (!rule.actions || rule.actions.includes(action))
+    );
+
+    if (matching.length === 0) {
+        return { allowed: false, reason: `You don't have **${action}** access to ${env}.` };
+    }
+
+    const denied = keys.filter(key => !matching.some(rule => !rule.keys || rule.keys.some(prefix => keyMatches(key, prefix))));
+    if (denied.length > 0) {
+        return {
+            allowed: false,
+            reason: `You can't **${action}** ${denied.map(key => `\`${key}\``).join(', ')} in ${env}.`
+        };
+    }
+
+    return { allowed: true };
+}
+
+/** Log a refused /config request to the console and the audit channel. Never throws. */
+export async function logDeniedAttempt(
+    client: Client,
+    subject: AccessSubject,
+    action: ConfigAction,
+    env: Env,
+    keys: string[],
+    reason: string
+): Promise<void> {
+    console.warn(`Denied /config ${action} in ${env} for ${subject.userTag} (${subject.userId})${keys.length ? ` on ${keys.join(', ')}` : ''}: ${reason}`);
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Config access denied: ${action} (${env})`)
+        .setColor(0x808080)
+        .setDescription(reason)
+        .addFields({ name: 'User', value: `<@${subject.userId}>`, inline: true })
+        .setTimestamp();
+
+    if (keys.length > 0) {
+        embed.addFields({ name: 'Keys', value: keys.map(key => `\`${key}\``).join(', ').slice(0, 1024), inline: true });
+    }
+
+    await postAuditNotice(client, embed);
+}
@@ -0,0 +1,182 @@
+// Config changes scheduled for a later time, optionally reverted after a duration
+
+import { randomUUID } from 'crypto';
+import { Client } from 'discord.js';
+import { ConfigKey, Env, fetchConfig } from './config-service.js';
+import { AppliedChange, applyConfigChanges } from './config-changes.js';
+import { formatAuditValue } from './audit-log.js';
+import { createStore } from './storage/index.js';
+
+export interface ScheduledChange {
+    id: string;
+    env: Env;
+    key: ConfigKey;
+    value: unknown;
+    /** ISO time the next step runs */
+    runAt: string;
+    /** 'apply' sets `value`; 'revert' restores `revertValue` if `value` is still in place */
+    phase: 'apply' | 'revert';
+    revertAfterMs?: number;
+    /** The value `value` replaced, captured when it was applied */
+    revertValue?: unknown;
+    userId: string;
+    userTag: string;
+    /** Where outcomes are reported */
+    channelId: string;
+    createdAt: string;
+}
+
+const TICK_MS = 15_000;
+export const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60_000;
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1_000,
+    m: 60_000,
+    h: 60 * 60_000,
+    d: 24 * 60 * 60_000,
+    w: 7 * 24 * 60 * 60_000
+};
+
+// Pending schedules: id -> schedule. File-backed so they survive restarts.
+const schedules = createStore<ScheduledChange>('config-schedules');
+
+/** Parse `90m`, `2h`, `1h30m` or `1d` into milliseconds. Returns null if it isn't a duration. */
+export function parseDuration(text: string): number | null {
+    const input = text.trim().toLowerCase().replace(/\s+/g, '');
+    if (!/^(\d+(\.\d+)?[smhdw])+$/.test(input)) return null;
+
+    let total = 0;
+    for (const [, amount, unit] of input.matchAll(/(\d+(?:\.\d+)?)([smhdw])/g)) {
+        total += Number(amount) * DURATION_UNITS[unit];
+    }
+    return total;
+}
+
+/**
+ * Parse when a schedule should run: a duration from now (`2h`, `in 30m`), a unix timestamp
+ * in seconds, or anything `Date.parse` understands such as `2025-06-01T02:00Z`.
+ */
+export function parseScheduleTime(text: string, now: number = Date.now()): number | null {
+    const input = text.trim().replace(/^in\s+/i, '');
+
+    const duration = parseDuration(input);
+    if (duration !== null) return now + duration;
+
+    if (/^\d{9,11}$/.test(input)) return Number(input) * 1000;
+
+    const parsed = Date.parse(input);
+    return isNaN(parsed) ? null : parsed;
+}
+
+export async function createSchedule(
+    schedule: Omit<ScheduledChange, 'id' | 'phase' | 'createdAt' | 'revertValue'>
+): Promise<ScheduledChange> {
+    const created: ScheduledChange = {
+        ...schedule,
+        id: randomUUID().slice(0, 8),
+        phase: 'apply',
+        createdAt: new Date().toISOString()
+    };
+    await schedules.set(created.id, created);
+    return created;
+}
+
+/** Soonest first */
+export async function listSchedules(): Promise<ScheduledChange[]> {
+    return (await schedules.entries())
+        .map(([, schedule]) => schedule)
+        .sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+export async function getSchedule(id: string): Promise<ScheduledChange | undefined> {
+    return schedules.get(id);
+}
+
+export async function cancelSchedule(id: string): Promise<boolean> {
+    return schedules.delete(id);
+}
+
+/** Run due schedules every few seconds. Ones that fell due while the bot was offline run on the first tick. */
+export function startConfigScheduler(client: Client): void {
+    let running = false;
+
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            const now = new Date().toISOString();
+            for (const schedule of await listSchedules()) {
+                if (schedule.runAt > now) break;
+                await runSchedule(client, schedule);
+            }
+        } catch (error) {
+            console.error('Config scheduler tick failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    void tick();
+    setInterval(tick, TICK_MS);
+}
+
+async function runSchedule(client: Client, schedule: ScheduledChange): Promise<void> {
+    const actor = { userId: schedule.userId, userTag: schedule.userTag };
+    const label = `\`${schedule.id}\` (${schedule.env} \`${schedule.key}\`)`;
+
+    try {
+        if (schedule.phase === 'apply') {
+            const change = await applyConfigChanges(client, schedule.env, { [schedule.key]: schedule.value }, actor, 'schedule');
+
+            if (schedule.revertAfterMs) {
+                const runAt = new Date(Date.now() + schedule.revertAfterMs).toISOString();
+                await schedules.set(schedule.id, { ...schedule, phase: 'revert', runAt, revertValue: change.oldValues[schedule.key] });
+                await notify(client, schedule, `⏰ Scheduled change ${label} applied: \`${formatAuditValue(schedule.value)}\` (${describeAudit(change)}). Reverting <t:${Math.floor(Date.parse(runAt) / 1000)}:R>.`);
+            } else {
+                await schedules.delete(schedule.id);
+                await notify(client, schedule, `⏰ Scheduled change ${label} applied: \`${formatAuditValue(schedule.value)}\` (${describeAudit(change)}).`);
+            }
+            return;
+        }
+
+        await schedules.delete(schedule.id);
+
+        if (schedule.revertValue === undefined) {
+            await notify(client, schedule, `⚠️ Not reverting ${label}: the key had no value before the change.`);
+            return;
+        }
+
+        // Someone changed the key since; reverting would silently overwrite their change
+        const current = (await fetchConfig(schedule.env)).configs[schedule.key];
+        if (JSON.stringify(current) !== JSON.stringify(schedule.value)) {
+            await notify(client, schedule, `⚠️ Not reverting ${label}: it was changed to \`${formatAuditValue(current)}\` after the schedule applied.`);
+            return;
+        }
+
+        const change = await applyConfigChanges(client, schedule.env, { [schedule.key]: schedule.revertValue }, actor, 'schedule');
+        await notify(client, schedule, `⏰ Scheduled change ${label} reverted to \`${formatAuditValue(schedule.revertValue)}\` (${describeAudit(change)}).`);
+    } catch (error: any) {
+        // A failed step is dropped rather than retried every tick
+        await schedules.delete(schedule.id);
+        console.error(`Scheduled config change ${schedule.id} failed:`, error);
+        await notify(client, schedule, `❌ Scheduled change ${label} failed during ${schedule.phase}: ${error.message}`);
+    }
+}
+
+function describeAudit(change: AppliedChange): string {
+    return change.auditError
+        ? `not recorded in the audit log: ${change.auditError.message}`
+        : `audit \`#${change.auditEntries[0].id}\``;
+}
+
+/** Failures are logged, never thrown */
+async function notify(client: Client, schedule: ScheduledChange, content: string): Promise<void> {
+    try {
+        const channel = await client.channels.fetch(schedule.channelId);
+        if (channel?.isSendable()) {
+            await channel.send({ content: `<@${schedule.userId}> ${content}`, allowedMentions: { users: [schedule.userId] } });
+        }
+    } catch (error) {
+        console.error(`Failed to report scheduled change ${schedule.id}:`, error);
+    }
+}
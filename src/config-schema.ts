@@ -0,0 +1,189 @@
+// Schema for backend config keys: types, ranges, units and descriptions
+
+import { CONFIG_DEFAULTS, ConfigKey } from './config-service.js';
+
+export type ConfigUnit = 'ms' | 'seconds' | 'ratio';
+
+export interface NumberKeySchema {
+    type: 'number';
+    description: string;
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    unit?: ConfigUnit;
+}
+
+export interface BooleanKeySchema {
+    type: 'boolean';
+    description: string;
+}
+
+export type KeySchema = NumberKeySchema | BooleanKeySchema;
+
+/** A rule spanning several keys, checked against the config as it would be after a change. */
+export interface ConfigConstraint {
+    keys: ConfigKey[];
+    message: string;
+    check: (values: Record<string, unknown>) => boolean;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CONFIG_SCHEMA: Record<ConfigKey, KeySchema> = {
+    'marketplace.maxListings': { type: 'number', integer: true, min: 1, max: 10_000, description: 'Maximum active listings per seller' },
+    'marketplace.enabled': { type: 'boolean', description: 'Master switch for the marketplace' },
+    'marketplace.activeSellerTimeoutMs': { type: 'number', integer: true, min: 1_000, max: HOUR_MS, unit: 'ms', description: 'Idle time before a seller stops counting as active' },
+    'marketplace.maxListingsQuery': { type: 'number', integer: true, min: 1, max: 5_000, description: 'Listings read from storage per query' },
+    'marketplace.maxResultsReturned': { type: 'number', integer: true, min: 1, max: 100, description: 'Listings returned to the client per query' },
+    'marketplace.rapPriorityMin': { type: 'number', min: 0, max: 10, unit: 'ratio', description: 'Lowest price/RAP ratio that gets priority' },
+    'marketplace.rapPriorityMax': { type: 'number', min: 0, max: 10, unit: 'ratio', description: 'Highest price/RAP ratio that gets priority' },
+    'marketplace.rapSmoothingFactor': { type: 'number', min: 1, max: 1_000, description: 'Number of sales RAP is smoothed over' },
+
+    'cache.ttlRap': { type: 'number', integer: true, min: 0, max: DAY_MS, unit: 'ms', description: 'Cache lifetime for RAP values' },
+    'cache.ttlHistory': { type: 'number', integer: true, min: 0, max: DAY_MS, unit: 'ms', description: 'Cache lifetime for sale history' },
+    'cache.ttlActiveSellers': { type: 'number', integer: true, min: 0, max: DAY_MS, unit: 'ms', description: 'Cache lifetime for the active seller list' },
+    'cache.ttlListingsIndex': { type: 'number', integer: true, min: 0, max: DAY_MS, unit: 'ms', description: 'Cache lifetime for the listings index' },
+
+    'restock.enabled': { type: 'boolean', description: 'Whether automatic restocks run' },
+    'restock.minCcu': { type: 'number', integer: true, min: 0, max: 1_000_000, description: 'Concurrent users required before a restock runs' },
+
+    'packs.buyEnabled': { type: 'boolean', description: 'Whether packs can be bought' },
+
+    'transfer.idempotencyTtlSeconds': { type: 'number', integer: true, min: 1, max: 86_400, unit: 'seconds', description: 'How long transfer idempotency keys are remembered' },
+
+    'retry.maxRetries': { type: 'number', integer: true, min: 0, max: 20, description: 'Retries for failed backend operations' },
+    'retry.baseDelayMs': { type: 'number', integer: true, min: 0, max: 60_000, unit: 'ms', description: 'Initial delay between retries' },
+};
+
+export const CONFIG_CONSTRAINTS: ConfigConstraint[] = [
+    {
+        keys: ['marketplace.rapPriorityMin', 'marketplace.rapPriorityMax'],
+        message: '`marketplace.rapPriorityMin` must be less than `marketplace.rapPriorityMax`',
+        check: values => Number(values['marketplace.rapPriorityMin']) < Number(values['marketplace.rapPriorityMax'])
+    },
+    {
+        keys: ['marketplace.maxResultsReturned', 'marketplace.maxListingsQuery'],
+        message: '`marketplace.maxResultsReturned` cannot exceed `marketplace.maxListingsQuery`',
+        check: values => Number(values['marketplace.maxResultsReturned']) <= Number(values['marketplace.maxListingsQuery'])
+    },
+];
+
+export function isConfigKey(key: string): key is ConfigKey {
+    return key in CONFIG_SCHEMA;
+}
+
+/** Check a single value against its key's schema. Returns a reason, or null if the value is valid. */
+export function validateValue(key: ConfigKey, value: unknown): string | null {
+    const schema = CONFIG_SCHEMA[key];
+
+    if (schema.type === 'boolean') {
+        return typeof value === 'boolean' ? null : `\`${key}\` must be \`true\` or \`false\``;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `\`${key}\` must be a number, got \`${JSON.stringify(value)}\``;
+    }
+    if (schema.integer && !Number.isInteger(value)) {
+        return `\`${key}\` must be a whole number`;
+    }
+    if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        return `\`${key}\` must be within ${describeRange(schema)}, got ${formatConfigValue(key, value)}`;
+    }
+    return null;
+}
+
+/**
+ * Validate a set of updates against the current config: every value on its own, then every
+ * cross-key constraint that involves an updated key. Returns all problems found.
+ */
+export function validateUpdates(current: Record<string, unknown>, updates: Partial<Record<ConfigKey, unknown>>): string[] {
+    const errors: string[] = [];
+
+    for (const [key, value] of Object.entries(updates) as [ConfigKey, unknown][]) {
+        const error = validateValue(key, value);
+        if (error) errors.push(error);
+    }
+
+    const merged: Record<string, unknown> = { ...CONFIG_DEFAULTS, ...current, ...updates };
+    for (const constraint of CONFIG_CONSTRAINTS) {
+        if (!constraint.keys.some(key => key in updates)) continue;
+        if (!constraint.check(merged)) errors.push(constraint.message);
+    }
+
+    return errors;
+}
+
+/**
+ * Parse a command option string into a value for `key`. Duration keys also accept a
+ * suffix (`500ms`, `60s`, `10m`, `2h`) which is converted to the key's unit.
+ */
+export function parseConfigValue(key: ConfigKey, input: string): unknown {
+    const schema = CONFIG_SCHEMA[key];
+    const text = input.trim().toLowerCase();
+
+    if (schema.type === 'boolean') {
+        if (text === 'true') return true;
+        if (text === 'false') return false;
+        throw new Error(`\`${key}\` must be \`true\` or \`false\``);
+    }
+
+    const duration = text.match(/^(-?\d+(?:\.\d+)?)\s*(ms|s|m|h)$/);
+    if (duration && (schema.unit === 'ms' || schema.unit === 'seconds')) {
+        const ms = Number(duration[1]) * { ms: 1, s: 1_000, m: 60_000, h: HOUR_MS }[duration[2] as 'ms' | 's' | 'm' | 'h'];
+        return schema.unit === 'ms' ? ms : ms / 1_000;
+    }
+
+    const value = Number(text);
+    if (text === '' || isNaN(value)) {
+        throw new Error(`\`${key}\` must be a number`);
+    }
+    return value;
+}
+
+/** Human-readable value, e.g. `60000` for a millisecond key becomes `60s`. */
+export function formatConfigValue(key: string, value: unknown): string {
+    const schema = isConfigKey(key) ? CONFIG_SCHEMA[key] : undefined;
+
+    if (typeof value === 'boolean') return value ? '✅' : '❌';
+    if (typeof value !== 'number' || schema?.type !== 'number') return String(value);
+
+    switch (schema.unit) {
+        case 'ms': return formatDuration(value);
+        case 'seconds': return formatDuration(value * 1_000);
+        case 'ratio': return `${value}×`;
+        default: return value.toLocaleString('en-US');
+    }
+}
+
+/** Short description with the allowed range, sized for an autocomplete choice (100 chars). */
+export function describeKey(key: ConfigKey): string {
+    const schema = CONFIG_SCHEMA[key];
+    const detail = schema.type === 'boolean'
+        ? 'true/false'
+        : `${schema.integer && !schema.unit ? 'whole number ' : ''}${describeRange(schema)}`;
+    const text = `${key} — ${schema.description} (${detail})`;
+    return text.length > 100 ? `${text.slice(0, 99)}…` : text;
+}
+
+function describeRange(schema: NumberKeySchema): string {
+    const format = (value: number) => {
+        if (schema.unit === 'ms') return formatDuration(value);
+        if (schema.unit === 'seconds') return formatDuration(value * 1_000);
+        return String(value);
+    };
+
+    if (schema.min !== undefined && schema.max !== undefined) return `${format(schema.min)}–${format(schema.max)}`;
+    if (schema.min !== undefined) return `≥ ${format(schema.min)}`;
+    if (schema.max !== undefined) return `≤ ${format(schema.max)}`;
+    return 'any number';
+}
+
+function formatDuration(ms: number): string {
+    const units: [string, number][] = [['d', DAY_MS], ['h', HOUR_MS], ['m', 60_000], ['s', 1_000]];
+    for (const [suffix, size] of units) {
+        // Stay in the smaller unit below two of the larger one: 60000 reads better as 60s than 1m
+        if (ms >= 2 * size && ms % size === 0) return `${ms / size}${suffix}`;
+    }
+    return ms >= 1_000 ? `${ms / 1_000}s` : `${ms}ms`;
+}
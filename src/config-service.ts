@@ -1,6 +1,8 @@
 
 // Config Service for interacting with the backend API
 
+import { Env, getEnvironment } from './environments.js';
+
 export const CONFIG_DEFAULTS = {
   'marketplace.maxListings': 256,
   'marketplace.enabled': true,
@@ -30,26 +32,22 @@ export const CONFIG_DEFAULTS = {
 export type ConfigKey = keyof typeof CONFIG_DEFAULTS;
 export type ConfigValue<K extends ConfigKey> = (typeof CONFIG_DEFAULTS)[K];
 
-export type Env = 'Dev' | 'Prod';
+export type { Env } from './environments.js';
 
 function getApiConfig(env: Env) {
-    const apis = {
-        Dev: {
-            url: process.env.API_URL_DEV!,
-            key: process.env.API_KEY_DEV?.trim().replace(/^["']|["']$/g, '')! 
-        },
-        Prod: {
-            url: process.env.API_URL_PROD!,
-            key: process.env.API_KEY_PROD?.trim().replace(/^["']|["']$/g, '')!
-        }
-    };
-    return apis[env];
+    const { url, key } = getEnvironment(env);
+    return { url, key };
+}
+
+/** Whether the URL and key for `env` are set, i.e. whether requests to it can be attempted at all */
+export function isEnvConfigured(env: Env): boolean {
+    const api = getApiConfig(env);
+    return Boolean(api.url && api.key);
 }
 
-function getHeaders() {
-    return {
-        [process.env.WAF_HEADER_NAME!]: process.env.WAF_HEADER_VALUE!
-    };
+function getHeaders(env: Env): Record<string, string> {
+    const { wafHeader } = getEnvironment(env);
+    return wafHeader ? { [wafHeader.name]: wafHeader.value } : {};
 }
 
 export async function fetchConfig(env: Env) {
@@ -67,13 +65,13 @@ export async function fetchConfig(env: Env) {
         throw new Error(`Missing configuration for environment: ${env}. Check .env file.`);
     }
 
-    console.log(`[DEBUG] Headers:`, JSON.stringify(getHeaders()));
+    console.log(`[DEBUG] Headers:`, JSON.stringify(getHeaders(env)));
 
     try {
         const response = await fetch(apiUrl, {
             headers: {
                 'Authorization': apiKey, // Revert to x-api-key as it is standard for AWS API Gateway
-                ...getHeaders()
+                ...getHeaders(env)
             }
         });
 
@@ -131,7 +129,7 @@ export async function updateConfig(env: Env, updates: Partial<Record<ConfigKey,
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': apiKey,
-                ...getHeaders()
+                ...getHeaders(env)
             },
             body: JSON.stringify(updates)
         });
@@ -0,0 +1,224 @@
+// Text conversations: persisted history, attachments, personas and compaction of long threads
+
+import { GoogleGenerativeAI, InlineDataPart, TextPart } from '@google/generative-ai';
+import { Attachment, Message } from 'discord.js';
+import { createStore } from './storage/index.js';
+import { checkQuota, recordUsage } from './quota.js';
+import { getRoleIds, supportsTyping } from './discord-helpers.js';
+import { Persona, resolvePersona } from './personas.js';
+import { StreamingReply } from './streaming-reply.js';
+import { readChatAttachments } from './chat-attachments.js';
+
+/** Text, or an image attached by the user */
+export type ConversationPart = TextPart | InlineDataPart;
+
+export interface ConversationMessage {
+    role: 'user' | 'model';
+    parts: ConversationPart[];
+}
+
+/** Older entries kept each message as a single string */
+type StoredMessage = ConversationMessage | { role: 'user' | 'model'; parts: string };
+type StoredConversation = Omit<Conversation, 'messages'> & { messages: StoredMessage[] };
+
+export interface Conversation {
+    /** Channel (or thread) the conversation happens in, so /reset can find it */
+    channelId?: string;
+    /** Summary of turns that were compacted away */
+    summary?: string;
+    messages: ConversationMessage[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Once a turn's total token count passes this, older turns are summarized
+const TOKEN_LIMIT = Number(process.env.CONVERSATION_TOKEN_LIMIT ?? 32_000);
+// Messages (not turns) kept verbatim when compacting; even, so history still starts with a user turn
+const KEEP_RECENT_MESSAGES = Math.max(2, Math.floor(Number(process.env.CONVERSATION_KEEP_RECENT ?? 6) / 2) * 2);
+
+// Conversation per message: the user's first message and every bot reply point at the
+// conversation as it was at that point, so replying to an older message branches from there.
+// Attached images are kept as base64, so the store is capped by size as well as count
+const conversations = createStore<StoredConversation | StoredMessage[]>('conversations', {
+    ttlMs: 7 * 24 * HOUR_MS,
+    maxEntries: 5000,
+    maxBytes: 32 * 1024 * 1024
+});
+
+/** Older entries were stored as a bare message array, with string parts */
+function normalize(stored: StoredConversation | StoredMessage[] | undefined): Conversation | undefined {
+    if (!stored) return undefined;
+    const conversation = Array.isArray(stored) ? { messages: stored } : stored;
+    return {
+        ...conversation,
+        messages: conversation.messages.map(msg =>
+            typeof msg.parts === 'string' ? { role: msg.role, parts: [{ text: msg.parts }] } : msg as ConversationMessage
+        )
+    };
+}
+
+/** The message as plain text, with a placeholder for each image */
+function messageText(msg: ConversationMessage): string {
+    return msg.parts.map(part => part.text ?? '[image]').join('\n');
+}
+
+export async function hasConversation(messageId: string): Promise<boolean> {
+    return conversations.has(messageId);
+}
+
+export async function getConversation(messageId: string): Promise<Conversation | undefined> {
+    return normalize(await conversations.get(messageId));
+}
+
+/** Forget every conversation in a channel or thread. Returns how many stored entries were dropped. */
+export async function resetConversations(channelId: string): Promise<number> {
+    let removed = 0;
+    for (const [key, stored] of await conversations.entries()) {
+        if (normalize(stored)?.channelId === channelId) {
+            await conversations.delete(key);
+            removed++;
+        }
+    }
+    return removed;
+}
+
+/** The message's channel, and its parent if it is a thread, most specific first */
+export function getChannelChain(message: Message): string[] {
+    const channel = message.channel;
+    const parentId = channel.isThread() ? channel.parentId : null;
+    return parentId ? [message.channelId, parentId] : [message.channelId];
+}
+
+function buildSystemInstruction(persona: Persona, summary?: string): string {
+    return summary
+        ? `${persona.prompt}\n\nSummary of the earlier part of this conversation:\n${summary}`
+        : persona.prompt;
+}
+
+export function createConversationHandler(genAI: GoogleGenerativeAI, modelName: string) {
+    /**
+     * Fold everything but the most recent messages into the running summary. If summarizing
+     * fails the old messages are dropped anyway, so the thread keeps working.
+     */
+    async function compact(conversation: Conversation, quotaSubject: Parameters<typeof recordUsage>[0]): Promise<Conversation> {
+        if (conversation.messages.length <= KEEP_RECENT_MESSAGES) return conversation;
+
+        const older = conversation.messages.slice(0, -KEEP_RECENT_MESSAGES);
+        const recent = conversation.messages.slice(-KEEP_RECENT_MESSAGES);
+
+        try {
+            const transcript = older
+                .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${messageText(msg)}`)
+                .join('\n\n');
+            const model = genAI.getGenerativeModel({ model: modelName });
+            const result = await model.generateContent([
+                'Summarize this conversation so it can be continued later. Keep names, decisions, open questions and any details the user asked to remember. Write at most 200 words.',
+                conversation.summary ? `Earlier summary:\n${conversation.summary}` : '',
+                `Conversation:\n${transcript}`
+            ].filter(Boolean).join('\n\n'));
+
+            await recordUsage(quotaSubject, { images: 0, tokens: result.response.usageMetadata?.totalTokenCount ?? 0 });
+            return { ...conversation, summary: result.response.text().trim(), messages: recent };
+        } catch (error) {
+            console.error('Conversation summary failed, trimming instead:', error);
+            return { ...conversation, messages: recent };
+        }
+    }
+
+    /**
+     * Answer a chat message. Images and text files in `attachments` (by default the message's own)
+     * are sent to the model along with `content` and kept in the history.
+     */
+    return async function handleTextConversation(
+        message: Message,
+        content: string,
+        replyToMessageId?: string,
+        attachments: Iterable<Attachment> = message.attachments.values()
+    ): Promise<void> {
+        const quotaSubject = { guildId: message.guildId, userId: message.author.id, roleIds: getRoleIds(message.member) };
+        const reply = new StreamingReply(message);
+
+        try {
+            // Chat only consumes tokens, so it is refused once the token budget is used up
+            const quota = await checkQuota(quotaSubject, { images: 0, tokens: 0 });
+            if (!quota.allowed) {
+                await message.reply(`⛔ **Quota exceeded**\n${quota.reason}`);
+                return;
+            }
+
+            if (supportsTyping(message.channel)) {
+                await message.channel.sendTyping();
+            }
+
+            // Get or create conversation history
+            const historyKey = replyToMessageId || message.id;
+            let conversation: Conversation = (await getConversation(historyKey)) ?? { channelId: message.channelId, messages: [] };
+            const persona = await resolvePersona(message.guildId, getChannelChain(message));
+
+            // Create chat session with the earlier turns; the new message is sent separately
+            const model = genAI.getGenerativeModel({
+                model: modelName,
+                systemInstruction: buildSystemInstruction(persona, conversation.summary)
+            });
+            const chat = model.startChat({
+                history: conversation.messages.map(msg => ({ role: msg.role, parts: msg.parts }))
+            });
+
+            const { parts: attachmentParts, skipped } = await readChatAttachments(attachments);
+            if (skipped.length > 0) {
+                await message.reply({
+                    content: `⚠️ Some attachments were left out:\n${skipped.map(reason => `- ${reason}`).join('\n')}`,
+                    allowedMentions: { repliedUser: false }
+                });
+            }
+            const userParts: ConversationPart[] = [{ text: content }, ...attachmentParts];
+
+            // Stream the answer into the reply as it arrives
+            const result = await chat.sendMessageStream(userParts);
+            let streamed = '';
+            for await (const chunk of result.stream) {
+                streamed += chunk.text();
+                reply.update(streamed);
+            }
+
+            const response = await result.response;
+            const text = response.text();
+            const totalTokens = response.usageMetadata?.totalTokenCount ?? 0;
+            await recordUsage(quotaSubject, { images: 0, tokens: totalTokens });
+
+            conversation = {
+                ...conversation,
+                channelId: conversation.channelId ?? message.channelId,
+                messages: [
+                    ...conversation.messages,
+                    { role: 'user', parts: userParts },
+                    { role: 'model', parts: [{ text }] }
+                ]
+            };
+
+            // Keep the next turn under the limit
+            if (totalTokens > TOKEN_LIMIT) {
+                conversation = await compact(conversation, quotaSubject);
+            }
+
+            // Store updated history
+            await conversations.set(historyKey, conversation);
+
+            const posted = await reply.finish(text);
+
+            // Store the history under every part of the reply, so replying to any of them continues the thread
+            for (const part of posted) {
+                await conversations.set(part.id, conversation);
+            }
+        } catch (error: any) {
+            console.error('Text Conversation Error:', error);
+
+            let errorMessage = "An error occurred while processing your message.";
+            if (error.message?.includes('API key')) errorMessage = "Invalid or missing API Key.";
+            // The SDK throws when the prompt or the candidate was blocked on safety grounds
+            if (/blocked/i.test(error.message ?? '')) errorMessage = "The model's safety filter blocked this message. Please rephrase it.";
+
+            await reply.fail(`❌ ${errorMessage}`);
+        }
+    };
+}
@@ -0,0 +1,14 @@
+// Small helpers for discord.js objects, shared by the command and message handlers
+
+import { GuildMember } from 'discord.js';
+
+// Interaction members may be raw API objects, where roles is a plain ID array
+export function getRoleIds(member: GuildMember | { roles: string[] } | null): string[] {
+    if (!member) return [];
+    return Array.isArray(member.roles) ? member.roles : Array.from(member.roles.cache.keys());
+}
+
+// Helper function to check if channel supports typing
+export function supportsTyping(channel: any): channel is { sendTyping: () => Promise<void> } {
+    return !!channel && 'sendTyping' in channel && typeof channel.sendTyping === 'function';
+}
@@ -0,0 +1,156 @@
+// Registry of backend environments the /config command can talk to
+
+import fs from 'fs';
+import path from 'path';
+
+export type Env = string;
+
+export interface EnvironmentDefinition {
+    name: Env;
+    url: string;
+    key: string;
+    /** Extra header required by the backend's WAF, if any */
+    wafHeader?: { name: string; value: string };
+    /** Embed colour for this environment */
+    color: number;
+    /** Protected environments get Prod-style safety rules, e.g. promotions into them need a second approver */
+    protected: boolean;
+}
+
+/** Shape of an entry in CONFIG_ENVIRONMENTS_FILE; anything omitted falls back to the env-var prefix */
+interface EnvironmentFileEntry {
+    name: string;
+    url?: string;
+    key?: string;
+    wafHeaderName?: string;
+    wafHeaderValue?: string;
+    color?: string | number;
+    protected?: boolean;
+}
+
+const DEFAULT_ENVIRONMENTS = 'Dev,Prod';
+// Discord allows at most 25 choices per option
+const MAX_ENVIRONMENTS = 25;
+
+let registry: EnvironmentDefinition[] | null = null;
+
+/**
+ * Environments in declaration order, from CONFIG_ENVIRONMENTS_FILE (default `environments.json`)
+ * if it exists, otherwise the comma-separated CONFIG_ENVIRONMENTS (default `Dev,Prod`).
+ */
+export function getEnvironments(): EnvironmentDefinition[] {
+    if (registry) return registry;
+
+    let entries: EnvironmentFileEntry[] | null = null;
+    const file = path.resolve(process.env.CONFIG_ENVIRONMENTS_FILE ?? 'environments.json');
+    try {
+        entries = parseEnvironmentFile(JSON.parse(fs.readFileSync(file, 'utf8')));
+    } catch (err: any) {
+        if (err.code !== 'ENOENT') {
+            console.error(`Ignoring invalid environments file ${file}: ${err.message}`);
+        }
+    }
+
+    entries ??= (process.env.CONFIG_ENVIRONMENTS ?? DEFAULT_ENVIRONMENTS)
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean)
+        .map(name => ({ name }));
+
+    if (entries.length > MAX_ENVIRONMENTS) {
+        console.error(`Only the first ${MAX_ENVIRONMENTS} of ${entries.length} environments are used.`);
+        entries = entries.slice(0, MAX_ENVIRONMENTS);
+    }
+
+    registry = entries.map(resolveEnvironment);
+    return registry;
+}
+
+export function getEnvironmentNames(): Env[] {
+    return getEnvironments().map(env => env.name);
+}
+
+export function isEnvironment(name: string): name is Env {
+    return getEnvironments().some(env => env.name === name);
+}
+
+export function getEnvironment(name: Env): EnvironmentDefinition {
+    const env = getEnvironments().find(candidate => candidate.name === name);
+    if (!env) {
+        throw new Error(`Unknown environment "${name}". Known environments: ${getEnvironmentNames().join(', ')}`);
+    }
+    return env;
+}
+
+export function isProtectedEnv(name: Env): boolean {
+    return getEnvironments().find(env => env.name === name)?.protected ?? false;
+}
+
+export function getEnvColor(name: Env): number {
+    return getEnvironments().find(env => env.name === name)?.color ?? 0x5865F2;
+}
+
+/** Choices for slash-command options */
+export function getEnvChoices(): { name: string; value: string }[] {
+    return getEnvironmentNames().map(name => ({ name, value: name }));
+}
+
+function parseEnvironmentFile(parsed: unknown): EnvironmentFileEntry[] {
+    const list = Array.isArray(parsed) ? parsed : (parsed as { environments?: unknown })?.environments;
+    if (!Array.isArray(list) || list.length === 0) {
+        throw new Error('expected a non-empty array of environments or an object with an "environments" array');
+    }
+
+    const names = new Set<string>();
+    for (const [index, entry] of list.entries()) {
+        if (!entry || typeof entry !== 'object' || typeof entry.name !== 'string' || !entry.name.trim()) {
+            throw new Error(`environment #${index + 1} needs a "name"`);
+        }
+        if (names.has(entry.name)) {
+            throw new Error(`environment "${entry.name}" is declared twice`);
+        }
+        names.add(entry.name);
+    }
+    return list as EnvironmentFileEntry[];
+}
+
+/** `Load Test` -> `LOAD_TEST`, the suffix of its API_URL_* / API_KEY_* variables */
+function envVarSuffix(name: string): string {
+    return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function resolveEnvironment(entry: EnvironmentFileEntry): EnvironmentDefinition {
+    const suffix = envVarSuffix(entry.name);
+    const variable = (prefix: string) => process.env[`${prefix}_${suffix}`];
+
+    const isProtected = entry.protected
+        ?? parseBoolean(variable('ENV_PROTECTED'))
+        // Keeps the behaviour of the original hard-coded Prod environment
+        ?? /^prod(uction)?$/i.test(entry.name);
+
+    const wafName = entry.wafHeaderName ?? variable('WAF_HEADER_NAME') ?? process.env.WAF_HEADER_NAME;
+    const wafValue = entry.wafHeaderValue ?? variable('WAF_HEADER_VALUE') ?? process.env.WAF_HEADER_VALUE;
+
+    return {
+        name: entry.name,
+        url: entry.url ?? variable('API_URL') ?? '',
+        key: (entry.key ?? variable('API_KEY') ?? '').trim().replace(/^["']|["']$/g, ''),
+        wafHeader: wafName && wafValue !== undefined ? { name: wafName, value: wafValue } : undefined,
+        color: parseColor(entry.color ?? variable('ENV_COLOR')) ?? (isProtected ? 0xFF0000 : 0x00FF00),
+        protected: isProtected
+    };
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+    if (value === undefined) return undefined;
+    return ['1', 'true', 'yes'].includes(value.trim().toLowerCase());
+}
+
+/** Accepts a number or a `#RRGGBB` / `0xRRGGBB` string */
+function parseColor(value: string | number | undefined): number | undefined {
+    if (typeof value === 'number') return value;
+    if (!value) return undefined;
+
+    const parsed = parseInt(value.trim().replace(/^(#|0x)/i, ''), 16);
+    return isNaN(parsed) ? undefined : parsed;
+}
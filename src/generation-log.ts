@@ -0,0 +1,176 @@
+// Append-only log of finished generations, searchable from /gallery
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { createStore, getStorageDir } from './storage/index.js';
+import { AspectRatio, InlineImage, ProviderName } from './providers/index.js';
+import { StylePreset } from './generation.js';
+
+export interface GenerationOutput {
+    /** 1-based, matching the generated_variant_N.png file name */
+    index: number;
+    /** SHA-256 of the image bytes */
+    hash: string;
+    mimeType: string;
+}
+
+export interface GenerationRecord {
+    id: number;
+    startedAt: string;
+    completedAt: string;
+    guildId: string | null;
+    channelId: string;
+    /** The message the variants were posted in */
+    messageId: string;
+    userId: string;
+    prompt: string;
+    preset?: string;
+    aspectRatio?: AspectRatio;
+    variantCount?: number;
+    style?: StylePreset;
+    negativePrompt?: string;
+    /** Set for studio edits, whose prompt is only the edit and needs the reference image it applies to */
+    systemInstructions?: string;
+    provider?: ProviderName;
+    model?: string;
+    isRegeneration: boolean;
+    /** Hashes of the input images, in the order they were sent */
+    references: string[];
+    variationOf?: string;
+    outputs: GenerationOutput[];
+}
+
+export type NewGenerationRecord = Omit<GenerationRecord, 'id' | 'references' | 'variationOf'>;
+
+export interface GenerationInputs {
+    references: InlineImage[];
+    variationOf?: InlineImage;
+    /** Input images that have since been evicted from the reference store */
+    missing: number;
+}
+
+export interface GalleryQuery {
+    guildId: string | null;
+    /** Only this user's generations; required outside a guild */
+    userId?: string;
+    /** Case-insensitive substring of the prompt */
+    text?: string;
+}
+
+// Input images are kept by hash so "regenerate" can rebuild a request; outputs are only hashed
+const referenceImages = createStore<InlineImage>('generation-references', {
+    maxBytes: Number(process.env.GENERATION_LOG_REFERENCE_BYTES ?? 64 * 1024 * 1024)
+});
+
+// Records are cached after the first read; the file is only ever appended to
+let cache: GenerationRecord[] | null = null;
+let writing: Promise<void> = Promise.resolve();
+
+function getLogPath(): string {
+    return path.join(getStorageDir(), 'generation-log.jsonl');
+}
+
+async function load(): Promise<GenerationRecord[]> {
+    if (cache) return cache;
+
+    let raw = '';
+    try {
+        raw = await fs.readFile(getLogPath(), 'utf8');
+    } catch (err: any) {
+        if (err.code !== 'ENOENT') throw err;
+    }
+
+    cache = raw
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as GenerationRecord];
+            } catch {
+                console.error(`Skipping corrupt generation log line: ${line}`);
+                return [];
+            }
+        });
+    return cache;
+}
+
+export function hashImage(image: InlineImage): string {
+    return createHash('sha256').update(Buffer.from(image.data, 'base64')).digest('hex');
+}
+
+async function storeImage(image: InlineImage): Promise<string> {
+    const hash = hashImage(image);
+    if (!(await referenceImages.has(hash))) {
+        await referenceImages.set(hash, image);
+    }
+    return hash;
+}
+
+export async function recordGeneration(
+    record: NewGenerationRecord,
+    references: InlineImage[],
+    variationOf?: InlineImage
+): Promise<GenerationRecord> {
+    const referenceHashes: string[] = [];
+    for (const image of references) {
+        referenceHashes.push(await storeImage(image));
+    }
+    const variationHash = variationOf ? await storeImage(variationOf) : undefined;
+
+    const records = await load();
+    const created: GenerationRecord = {
+        id: records.length > 0 ? records[records.length - 1].id + 1 : 1,
+        ...record,
+        references: referenceHashes,
+        ...(variationHash ? { variationOf: variationHash } : {})
+    };
+    records.push(created);
+
+    const line = JSON.stringify(created) + '\n';
+    writing = writing.then(async () => {
+        await fs.mkdir(path.dirname(getLogPath()), { recursive: true });
+        await fs.appendFile(getLogPath(), line);
+    });
+    await writing;
+
+    return created;
+}
+
+export async function getGenerationRecord(id: number): Promise<GenerationRecord | undefined> {
+    return (await load()).find(record => record.id === id);
+}
+
+/** Matching records, newest first, with the total count for paging */
+export async function searchGenerations(
+    query: GalleryQuery,
+    offset: number = 0,
+    limit: number = 5
+): Promise<{ records: GenerationRecord[]; total: number }> {
+    const text = query.text?.trim().toLowerCase();
+    const matches = (await load())
+        .filter(record =>
+            record.guildId === query.guildId &&
+            (!query.userId || record.userId === query.userId) &&
+            (!text || record.prompt.toLowerCase().includes(text))
+        )
+        .reverse();
+
+    return { records: matches.slice(offset, offset + limit), total: matches.length };
+}
+
+/** The stored input images of a record, for regenerating it */
+export async function loadGenerationInputs(record: GenerationRecord): Promise<GenerationInputs> {
+    let missing = 0;
+    const references: InlineImage[] = [];
+    for (const hash of record.references) {
+        const image = await referenceImages.get(hash);
+        if (image) references.push(image);
+        else missing++;
+    }
+
+    const variationOf = record.variationOf ? await referenceImages.get(record.variationOf) : undefined;
+    if (record.variationOf && !variationOf) missing++;
+
+    return { references, variationOf, missing };
+}
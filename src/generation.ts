@@ -0,0 +1,525 @@
+// Image generation pipeline shared by @mentions and the /imagine command
+
+import { 
+    ActionRowBuilder, 
+    AttachmentBuilder, 
+    ButtonBuilder, 
+    ButtonStyle, 
+    ButtonInteraction, 
+    Client, 
+    Message, 
+    PermissionFlagsBits, 
+    RepliableInteraction
+} from 'discord.js';
+import { randomUUID } from 'crypto';
+import { createStore } from './storage/index.js';
+import { QuotaReservation, QuotaSubject, reserveQuota, settleReservation } from './quota.js';
+import { JobCancelledError, JobQueue } from './job-queue.js';
+import { 
+    AspectRatio, 
+    ImageProvider, 
+    InlineImage, 
+    AuthenticationError, 
+    ModelNotFoundError, 
+    NetworkError, 
+    NoProviderError, 
+    ProviderError, 
+    ProviderName, 
+    RateLimitError, 
+    SafetyBlockedError, 
+    ServerError, 
+    resolveProviderChain, 
+    runWithFallback 
+} from './providers/index.js';
+import { PromptPreset, renderPresetInstructions, resolvePreset, usesPromptPlaceholder } from './prompt-presets.js';
+import { hashImage, recordGeneration } from './generation-log.js';
+import { getRoleIds, supportsTyping } from './discord-helpers.js';
+import { describeRefusal, logRefusal, screenPrompt } from './moderation.js';
+
+export const STYLE_PRESETS = {
+    'photorealistic': 'Photorealistic, natural lighting, high detail photography.',
+    'anime': 'Anime style, cel shading, clean line art.',
+    'digital-art': 'Polished digital painting with rich colours.',
+    'watercolor': 'Soft watercolour painting on textured paper.',
+    'pixel-art': 'Retro pixel art with a limited palette.',
+    '3d-render': 'Stylised 3D render with soft global illumination.',
+    'sketch': 'Pencil sketch with visible linework and shading.'
+} as const;
+
+export type StylePreset = keyof typeof STYLE_PRESETS;
+
+export const DEFAULT_VARIANT_COUNT = 3;
+export const MAX_VARIANT_COUNT = 4;
+
+export interface GenerationRequest {
+    prompt: string;
+    /** Images from a previous generation, used when regenerating */
+    previousGeneratedImages?: InlineImage[];
+    /** Reference images supplied by the user */
+    references?: InlineImage[];
+    /** When set, produce variations of this single image instead of a fresh generation */
+    variationOf?: InlineImage;
+    isRegeneration?: boolean;
+    provider?: ProviderName;
+    aspectRatio?: AspectRatio;
+    variantCount?: number;
+    style?: StylePreset;
+    negativePrompt?: string;
+    /** Prompt preset name; when unset the guild's default preset (if any) applies */
+    preset?: string;
+    /** Replaces the default system instructions, and skips presets entirely (used by studio edits) */
+    systemInstructions?: string;
+}
+
+/** What a successful generation posted */
+export interface GenerationResult {
+    message: Message;
+    variants: VariantData[];
+}
+
+/** Request options that are carried over when a result is regenerated */
+export type GenerationSettings = Pick<GenerationRequest, 'aspectRatio' | 'variantCount' | 'style' | 'negativePrompt' | 'preset' | 'systemInstructions'>;
+
+export interface VariantData {
+    /** 1-based, matching the generated_variant_N.png file name */
+    index: number;
+    image: InlineImage;
+    text: string | null;
+}
+
+export interface ImageGenerationData {
+    prompt: string;
+    userId?: string;
+    variants: VariantData[]; // Store the generated output images for regeneration
+    references?: InlineImage[]; // Input images the variants were generated from, reused by re-rolls
+    variationOf?: InlineImage;
+    provider?: ProviderName;
+    settings?: GenerationSettings;
+}
+
+interface StatusUpdate {
+    content: string;
+    files?: AttachmentBuilder[];
+    components?: ActionRowBuilder<ButtonBuilder>[];
+}
+
+/** Where generation status and results are posted: a message reply or an interaction response. */
+export interface GenerationTarget extends QuotaSubject {
+    client: Client;
+    channelId: string | null;
+    channel: unknown;
+    showStatus(text: string): Promise<void>;
+    update(update: string | StatusUpdate): Promise<Message>;
+}
+
+// Every provider call goes through this queue, so bursts don't fan out into dozens of parallel requests
+const generationQueue = new JobQueue(Math.max(Number(process.env.GENERATION_WORKERS) || 2, 1));
+
+// Store image generation metadata: messageId -> generation data
+// Generated images are kept as base64, so this store is capped by size rather than count
+export const imageMetadata = createStore<ImageGenerationData>('image-metadata', {
+    ttlMs: 3 * 24 * 60 * 60 * 1000,
+    maxBytes: 64 * 1024 * 1024
+});
+
+export function messageTarget(message: Message): GenerationTarget {
+    let statusMessage: Message | null = null;
+
+    return {
+        guildId: message.guildId,
+        userId: message.author.id,
+        roleIds: getRoleIds(message.member),
+        client: message.client,
+        channelId: message.channelId,
+        channel: message.channel,
+        async showStatus(text) {
+            statusMessage = await message.reply(text);
+        },
+        async update(update) {
+            return statusMessage ? statusMessage.edit(update) : message.reply(update);
+        }
+    };
+}
+
+export function interactionTarget(interaction: RepliableInteraction): GenerationTarget {
+    return {
+        guildId: interaction.guildId,
+        userId: interaction.user.id,
+        roleIds: getRoleIds(interaction.member),
+        client: interaction.client,
+        channelId: interaction.channelId,
+        channel: interaction.channel,
+        async showStatus(text) {
+            if (interaction.deferred || interaction.replied) {
+                await interaction.editReply(text);
+            } else {
+                await interaction.reply(text);
+            }
+        },
+        async update(update) {
+            return interaction.editReply(update);
+        }
+    };
+}
+
+const CANCEL_PREFIX = 'generation-cancel';
+
+function buildCancelRow(jobId: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`${CANCEL_PREFIX}:${jobId}`)
+            .setLabel('Cancel')
+            .setStyle(ButtonStyle.Danger)
+    );
+}
+
+export function isCancelButton(customId: string): boolean {
+    return customId.startsWith(`${CANCEL_PREFIX}:`);
+}
+
+/** Cancel a queued or running generation. Only the requester or a moderator may cancel. */
+export async function handleCancelButton(interaction: ButtonInteraction) {
+    const jobId = interaction.customId.slice(CANCEL_PREFIX.length + 1);
+    const owner = generationQueue.owner(jobId);
+
+    if (!owner) {
+        await interaction.reply({ content: 'This generation has already finished.', ephemeral: true });
+        return;
+    }
+
+    const isModerator = interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages) ?? false;
+    if (owner !== interaction.user.id && !isModerator) {
+        await interaction.reply({ content: 'Only the person who requested this generation can cancel it.', ephemeral: true });
+        return;
+    }
+
+    await interaction.deferUpdate();
+    generationQueue.cancel(jobId);
+}
+
+// Custom IDs are `${VARIANT_ACTION_PREFIX}:<action>[:<variant index>]`; handled in ./variant-actions.ts
+export const VARIANT_ACTION_PREFIX = 'variant';
+
+/** One "Re-roll" row, then one row of per-variant actions for each generated image. */
+export function buildVariantRows(variants: VariantData[]): ActionRowBuilder<ButtonBuilder>[] {
+    const rerollRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`${VARIANT_ACTION_PREFIX}:reroll`)
+            .setLabel('Re-roll')
+            .setEmoji('🔄')
+            .setStyle(ButtonStyle.Primary)
+    );
+
+    const variantRows = variants.slice(0, MAX_VARIANT_COUNT).map(({ index }) =>
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`${VARIANT_ACTION_PREFIX}:vary:${index}`)
+                .setLabel(`Vary #${index}`)
+                .setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder()
+                .setCustomId(`${VARIANT_ACTION_PREFIX}:ref:${index}`)
+                .setLabel(`Use #${index} as reference`)
+                .setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder()
+                .setCustomId(`${VARIANT_ACTION_PREFIX}:edit:${index}`)
+                .setLabel(`Edit #${index}`)
+                .setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder()
+                .setCustomId(`${VARIANT_ACTION_PREFIX}:studio:${index}`)
+                .setLabel(`Studio #${index}`)
+                .setEmoji('🧵')
+                .setStyle(ButtonStyle.Secondary)
+        )
+    );
+
+    return [rerollRow, ...variantRows];
+}
+
+function buildPrompt(request: GenerationRequest, preset?: PromptPreset): string {
+    const instructions = request.systemInstructions
+        ? [request.systemInstructions, ...(request.aspectRatio ? [`Aspect Ratio: ${request.aspectRatio}.`] : [])]
+        : preset
+        ? [renderPresetInstructions(preset, request.prompt), `Aspect Ratio: ${request.aspectRatio ?? preset.aspectRatio}.`]
+        : [
+            "Generate an image based on the user's prompt.",
+            request.aspectRatio
+                ? `Aspect Ratio: ${request.aspectRatio}.`
+                : "Default Aspect Ratio: 16:9 Landscape (unless the user specifies otherwise).",
+            "Maintain high visual fidelity and follow the style instructions closely."
+        ];
+    if (request.style) instructions.push(`Style: ${STYLE_PRESETS[request.style]}`);
+    if (request.negativePrompt) instructions.push(`Do NOT include: ${request.negativePrompt}`);
+
+    const system = `<system_instructions>\n${instructions.join('\n')}\n</system_instructions>`;
+    // A template using {prompt} already contains the prompt; repeating it would weight it twice
+    if (!request.systemInstructions && preset && usesPromptPlaceholder(preset)) return system;
+
+    return `${system}\n\n<user_prompt>\n${request.prompt}\n</user_prompt>`;
+}
+
+function describeError(error: unknown): string {
+    if (error instanceof SafetyBlockedError) return "blocked by the provider's safety filter";
+    if (error instanceof AuthenticationError) return "Invalid or missing API Key.";
+    if (error instanceof ModelNotFoundError) return `Model "${error.model}" not found or not accessible. Check your API access.`;
+    if (error instanceof RateLimitError) return "rate limited";
+    if (error instanceof ServerError || error instanceof NetworkError) return "The image provider is temporarily unavailable. Please try again shortly.";
+    if (error instanceof NoProviderError) return error.message;
+    return "An error occurred during generation.";
+}
+
+/** Run a generation and post the outcome to `target`. Resolves to the posted result, or null if nothing was produced. */
+export async function generateImages(target: GenerationTarget, request: GenerationRequest): Promise<GenerationResult | null> {
+    let statusShown = false;
+    let statusUpdates: Promise<void> = Promise.resolve();
+    // Assigned from the fallback callback, so keep TypeScript from narrowing it to null
+    let activeProvider = null as ImageProvider | null;
+    let reservation: QuotaReservation | undefined;
+
+    const { previousGeneratedImages = [], references: userReferences = [], isRegeneration = false } = request;
+    const startedAt = new Date().toISOString();
+
+    const refusal = {
+        guildId: target.guildId,
+        channelId: target.channelId,
+        userId: target.userId,
+        prompt: request.prompt
+    };
+
+    try {
+        // Prompts are screened against the server's blocklist before anything else happens
+        const blockedTerm = await screenPrompt(target.guildId, request.prompt);
+        if (blockedTerm) {
+            await logRefusal(target.client, { ...refusal, stage: 'blocklist', reason: blockedTerm, categories: [] });
+            await target.update({ content: `🚫 **Request refused**\n${describeRefusal('blocklist')}`, components: [] });
+            return null;
+        }
+
+        // Explicit options win over the preset's defaults
+        const preset = request.systemInstructions ? undefined : await resolvePreset(target.guildId, request.preset);
+        if (request.preset && !preset) {
+            console.log(`[DEBUG] Preset "${request.preset}" no longer exists, generating without it.`);
+        }
+        const aspectRatio = request.aspectRatio ?? preset?.aspectRatio;
+        const variantCount = Math.min(Math.max(request.variantCount ?? preset?.variantCount ?? DEFAULT_VARIANT_COUNT, 1), MAX_VARIANT_COUNT);
+
+        // Reject over-quota requests before anything is sent to a provider, and hold the
+        // requested images so generations queued meanwhile can't overrun the budget
+        const quota = await reserveQuota(target, { images: variantCount, tokens: 0 });
+        if (!quota.allowed) {
+            console.log(`[DEBUG] Quota rejected generation for ${target.userId}: ${quota.reason}`);
+            await target.update(`⛔ **Quota exceeded**\n${quota.reason}\nUse \`/usage view\` to see your remaining budget.`);
+            return null;
+        }
+        reservation = quota.reservation;
+
+        console.log(`[DEBUG] Generating images: ${request.prompt}`);
+        
+        const statusText = isRegeneration 
+            ? "🔄 **Regenerating with modifications...** Please wait."
+            : "🎨 **Generating variants...** Please wait.";
+        await target.showStatus(statusText);
+        statusShown = true;
+
+        // Prepare prompt with better structure
+        const finalPrompt = buildPrompt(request, preset);
+
+        console.log(`[DEBUG] Final Prompt: ${finalPrompt}`);
+        const references: InlineImage[] = [];
+
+        // Add previously generated images for regeneration
+        if (previousGeneratedImages.length > 0) {
+            references.push(...previousGeneratedImages);
+            console.log(`[DEBUG] Added ${previousGeneratedImages.length} previously generated images for regeneration.`);
+        }
+
+        // Add user supplied reference images (attachments, replied-to messages, command options)
+        if (userReferences.length > 0) {
+            references.push(...userReferences);
+            console.log(`[DEBUG] Added ${userReferences.length} reference images.`);
+        }
+
+        // Generate variants, falling back to other providers if the preferred one is rate limited
+        const chain = await resolveProviderChain(target.guildId, request.provider);
+
+        // Status edits are chained so a late queue update can't overwrite the result
+        const jobId = randomUUID();
+        const cancelRow = buildCancelRow(jobId);
+        const setStatus = (content: string) => {
+            statusUpdates = statusUpdates
+                .then(() => target.update({ content, components: [cancelRow] }))
+                .then(() => {}, err => console.error('Failed to update generation status:', err));
+        };
+
+        const job = generationQueue.enqueue(jobId, target.userId, async (signal) => {
+            // Keep typing indicator active while this job is actually running
+            if (supportsTyping(target.channel)) {
+                target.channel.sendTyping().catch(() => {});
+            }
+            const progressInterval = setInterval(() => {
+                if (supportsTyping(target.channel)) {
+                    target.channel.sendTyping().catch(() => {});
+                }
+            }, 5000);
+
+            try {
+                const imageOptions = { aspectRatio, signal };
+                console.log(`[DEBUG] Waiting for ${variantCount} generations...`);
+                return await runWithFallback(
+                    chain,
+                    provider => {
+                        if (request.variationOf) {
+                            return provider.variants(request.variationOf, variantCount, request.prompt, imageOptions);
+                        }
+                        return references.length > 0
+                            ? provider.edit(finalPrompt, references, variantCount, imageOptions)
+                            : provider.generate(finalPrompt, variantCount, imageOptions);
+                    },
+                    provider => { activeProvider = provider; }
+                );
+            } finally {
+                clearInterval(progressInterval);
+            }
+        }, {
+            onPosition: position => setStatus(`⏳ **Queued** – position ${position} in queue.`),
+            onStart: () => setStatus(statusText)
+        });
+
+        const results = await job.promise;
+        await statusUpdates;
+        
+        // Handle responses
+        // The reservation becomes the usage that actually happened
+        const held = reservation;
+        reservation = undefined;
+        if (held) {
+            await settleReservation(held, {
+                images: results.filter(result => result.image).length,
+                tokens: results.reduce((total, result) => total + result.tokens, 0)
+            });
+        }
+
+        const attachments: AttachmentBuilder[] = [];
+        const variants: VariantData[] = []; // Store for metadata
+        let combinedText = "";
+
+        for (let i = 0; i < results.length; i++) {
+            const { image, text, error } = results[i];
+            
+            if (text) combinedText += `Variant ${i+1}: ${text}\n`;
+            if (error) combinedText += `Variant ${i+1}: ⚠️ failed (${describeError(error)})\n`;
+
+            if (image) {
+                const buffer = Buffer.from(image.data, 'base64');
+                attachments.push(new AttachmentBuilder(buffer, { name: `generated_variant_${i+1}.png` }));
+                
+                // Store the image data for potential regeneration
+                variants.push({ index: i + 1, image, text });
+            }
+        }
+
+        // Some variants were withheld while others came through: still a refusal, logged once per
+        // request as when every variant is blocked
+        const blocked = results.find(result => result.error instanceof SafetyBlockedError)?.error as SafetyBlockedError | undefined;
+        if (blocked) {
+            const { stage, reason, categories } = blocked.block;
+            await logRefusal(target.client, { ...refusal, stage, reason, categories, provider: blocked.provider, model: blocked.model });
+        }
+
+        if (attachments.length > 0) {
+            const replyMessage = await target.update({ 
+                content: combinedText ? `Generated Images:\n${combinedText}` : "Here are your generated variants:", 
+                files: attachments,
+                components: buildVariantRows(variants)
+            });
+            
+            // Store metadata for potential regeneration with the generated images
+            await imageMetadata.set(replyMessage.id, {
+                prompt: request.prompt,
+                userId: target.userId,
+                variants,
+                references,
+                variationOf: request.variationOf,
+                provider: activeProvider?.name,
+                settings: {
+                    aspectRatio: request.aspectRatio,
+                    variantCount: request.variantCount,
+                    style: request.style,
+                    negativePrompt: request.negativePrompt,
+                    preset: preset?.name,
+                    systemInstructions: request.systemInstructions
+                }
+            });
+
+            // The gallery log outlives the metadata above; failing to write it doesn't fail the generation
+            try {
+                await recordGeneration({
+                    startedAt,
+                    completedAt: new Date().toISOString(),
+                    guildId: target.guildId,
+                    channelId: replyMessage.channelId,
+                    messageId: replyMessage.id,
+                    userId: target.userId,
+                    prompt: request.prompt,
+                    preset: preset?.name,
+                    aspectRatio,
+                    variantCount,
+                    style: request.style,
+                    negativePrompt: request.negativePrompt,
+                    systemInstructions: request.systemInstructions,
+                    provider: activeProvider?.name,
+                    model: activeProvider?.model,
+                    isRegeneration,
+                    outputs: variants.map(variant => ({ index: variant.index, hash: hashImage(variant.image), mimeType: variant.image.mimeType }))
+                }, references, request.variationOf);
+            } catch (err) {
+                console.error('Failed to record generation:', err);
+            }
+
+            return { message: replyMessage, variants };
+        } else if (combinedText) {
+            await target.update({ content: combinedText, components: [] });
+        } else {
+            await target.update({ 
+                content: "Generation finished, but no output (text or image) was found in the responses.", 
+                components: [] 
+            });
+        }
+
+    } catch (error: any) {
+        await statusUpdates;
+
+        // Nothing was produced, so the held images go back to the budget
+        if (reservation) {
+            await settleReservation(reservation, { images: 0, tokens: 0 }).catch(err => console.error('Failed to release quota reservation:', err));
+        }
+
+        if (error instanceof JobCancelledError) {
+            console.log(`[DEBUG] Generation cancelled: ${request.prompt}`);
+            await target.update({ content: '🛑 Generation cancelled.', components: [] }).catch(() => {});
+            return null;
+        }
+
+        if (error instanceof SafetyBlockedError) {
+            const { stage, reason, categories } = error.block;
+            await logRefusal(target.client, { ...refusal, stage, reason, categories, provider: error.provider, model: error.model });
+            await target.update({ content: `🚫 **Request refused**\n${describeRefusal(stage, categories)}`, components: [] }).catch(() => {});
+            return null;
+        }
+
+        console.error('Generation Error:', error);
+        
+        const modelName = error instanceof ProviderError ? error.model : activeProvider?.model ?? 'unknown';
+        const errorMessage = describeError(error);
+        
+        if (statusShown && error instanceof RateLimitError) {
+            await target.update({
+                content: `❌ **Quota Exceeded / Rate Limited**\nEvery configured image provider returned a "Too Many Requests" error. This usually means:\n1. You are on the Free Tier and this model (${modelName}) is not available for free (Limit: 0).\n2. Or you have hit the rate limit for the minute/day.\n\nPlease check your provider billing settings.`,
+                components: []
+            });
+        } else {
+            await target.update({ content: `❌ ${errorMessage}`, components: [] }).catch(() => {});
+        }
+    }
+
+    return null;
+}
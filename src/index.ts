@@ -1,20 +1,44 @@
-import { Client, GatewayIntentBits, Partials, Message, AttachmentBuilder, REST, Routes, Interaction } from 'discord.js';
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-import dotenv from 'dotenv';
+import 'dotenv/config';
+import { 
+    Client, 
+    GatewayIntentBits, 
+    Partials, 
+    Message, 
+    REST, 
+    Routes, 
+    Interaction, 
+    ActionRowBuilder, 
+    ButtonBuilder, 
+    ButtonInteraction, 
+    ButtonStyle
+} from 'discord.js';
+import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as configCommand from './commands/config.js';
-
-dotenv.config();
-
-// Type definitions
-interface ConversationMessage {
-    role: 'user' | 'model';
-    parts: string;
-}
-
-interface ImageGenerationData {
-    prompt: string;
-    generatedImages?: any[]; // Store the generated output images for regeneration
-}
+import * as imagineCommand from './commands/imagine.js';
+import * as providerCommand from './commands/provider.js';
+import * as usageCommand from './commands/usage.js';
+import * as personaCommand from './commands/persona.js';
+import * as resetCommand from './commands/reset.js';
+import * as presetCommand from './commands/preset.js';
+import * as galleryCommand from './commands/gallery.js';
+import * as moderationCommand from './commands/moderation.js';
+import { MemoryStore, flushAllStoresSync } from './storage/index.js';
+import { Intent, IntentResult, createIntentClassifier } from './intent.js';
+import { InlineImage, getAvailableProviders } from './providers/index.js';
+import { startConfigMonitor } from './config-drift.js';
+import { startConfigScheduler } from './config-scheduler.js';
+import { 
+    generateImages, 
+    handleCancelButton, 
+    isCancelButton, 
+    imageMetadata, 
+    messageTarget 
+} from './generation.js';
+import * as variantActions from './variant-actions.js';
+import { extractPresetName, getPreset } from './prompt-presets.js';
+import { ImageSource, collectImageSources, ingestReferenceImages } from './reference-images.js';
+import { createConversationHandler, hasConversation } from './conversation.js';
+import { handleStudioButton, handleStudioMessage, isStudioButton } from './studio.js';
 
 // Initialize Discord Client
 const client = new Client({
@@ -27,26 +51,57 @@ const client = new Client({
     partials: [Partials.Channel, Partials.Message]
 });
 
-// Initialize Gemini API
+// Initialize Gemini API (text conversations; image generation goes through ./providers)
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
 
 // Model names
-const IMAGE_MODEL_NAME = "models/gemini-3-pro-image-preview";
 const TEXT_MODEL_NAME = "models/gemini-2.5-flash";
 
-// Store conversation history: messageId -> history
-const conversationHistory = new Map<string, ConversationMessage[]>();
+const classifyIntent = createIntentClassifier(genAI, TEXT_MODEL_NAME);
+
+// Below this confidence the user is asked whether they wanted an image
+const INTENT_CONFIDENCE_THRESHOLD = Number(process.env.INTENT_CONFIDENCE_THRESHOLD ?? 0.6);
+
+// Text conversations with persona system prompts and history compaction
+const handleTextConversation = createConversationHandler(genAI, TEXT_MODEL_NAME);
 
-// Store image generation metadata: messageId -> generation data
-const imageMetadata = new Map<string, ImageGenerationData>();
+interface PendingIntent {
+    userId: string;
+    channelId: string;
+    messageId: string;
+    content: string;
+    prompt: string;
+    intent: Intent;
+}
+
+// Mentions awaiting a "Did you mean to generate an image?" answer: prompt messageId -> pending intent
+const pendingIntents = new MemoryStore<PendingIntent>({ ttlMs: 15 * 60 * 1000, maxEntries: 500 });
+
+// Persist pending writes before the process goes away
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+        flushAllStoresSync();
+        process.exit(0);
+    });
+}
 
 client.once('ready', async () => {
     console.log(`Logged in as ${client.user?.tag}!`);
-    console.log(`Image Model: ${IMAGE_MODEL_NAME}`);
+    console.log(`Image Providers: ${getAvailableProviders().join(', ') || 'none'}`);
     console.log(`Text Model: ${TEXT_MODEL_NAME}`);
 
     // Register Slash Commands
-    const commands = [configCommand.data.toJSON()];
+    const commands = [
+        configCommand.data.toJSON(), 
+        imagineCommand.data.toJSON(), 
+        providerCommand.data.toJSON(), 
+        usageCommand.data.toJSON(), 
+        personaCommand.data.toJSON(), 
+        resetCommand.data.toJSON(), 
+        presetCommand.data.toJSON(), 
+        galleryCommand.data.toJSON(), 
+        moderationCommand.data.toJSON()
+    ];
     const rest = new REST({ version: '10' }).setToken(process.env.DISCORD_TOKEN!);
 
     try {
@@ -61,302 +116,100 @@ client.once('ready', async () => {
     } catch (error) {
         console.error(error);
     }
+
+    startConfigMonitor(client);
+    startConfigScheduler(client);
 });
 
 // Interaction Handler
 client.on('interactionCreate', async (interaction: Interaction) => {
+    try {
+        await routeInteraction(interaction);
+    } catch (error) {
+        console.error('Error handling interaction:', error);
+        if (interaction.isRepliable() && !interaction.replied && !interaction.deferred) {
+            await interaction.reply({ content: 'Something went wrong handling that.', ephemeral: true }).catch(() => {});
+        }
+    }
+});
+
+async function routeInteraction(interaction: Interaction): Promise<void> {
     if (interaction.isChatInputCommand()) {
         if (interaction.commandName === 'config') {
             await configCommand.execute(interaction);
+        } else if (interaction.commandName === 'imagine') {
+            await imagineCommand.execute(interaction);
+        } else if (interaction.commandName === 'provider') {
+            await providerCommand.execute(interaction);
+        } else if (interaction.commandName === 'usage') {
+            await usageCommand.execute(interaction);
+        } else if (interaction.commandName === 'persona') {
+            await personaCommand.execute(interaction);
+        } else if (interaction.commandName === 'reset') {
+            await resetCommand.execute(interaction);
+        } else if (interaction.commandName === 'preset') {
+            await presetCommand.execute(interaction);
+        } else if (interaction.commandName === 'gallery') {
+            await galleryCommand.execute(interaction);
+        } else if (interaction.commandName === 'moderation') {
+            await moderationCommand.execute(interaction);
         }
     } else if (interaction.isAutocomplete()) {
         if (interaction.commandName === 'config') {
             await configCommand.autocomplete(interaction);
+        } else if (interaction.commandName === 'persona') {
+            await personaCommand.autocomplete(interaction);
+        } else if (interaction.commandName === 'imagine') {
+            await imagineCommand.autocomplete(interaction);
+        } else if (interaction.commandName === 'preset') {
+            await presetCommand.autocomplete(interaction);
+        } else if (interaction.commandName === 'moderation') {
+            await moderationCommand.autocomplete(interaction);
         }
-    }
-});
-
-// Helper function to detect if user wants image generation
-function wantsImageGeneration(text: string): boolean {
-    const imageKeywords = [
-        'generate', 'create', 'make', 'draw', 'image', 'picture', 
-        'photo', 'render', 'art', 'artwork', 'illustration', 'sketch',
-        'design', 'visualize', 'show me', 'paint'
-    ];
-    
-    const lowerText = text.toLowerCase();
-    return imageKeywords.some(keyword => lowerText.includes(keyword));
-}
-
-// Helper function to extract prompt from text
-function extractPrompt(text: string): string {
-    // Remove common prefixes more aggressively
-    const cleaned = text
-        .replace(/^(generate|create|make|draw|show me|paint|give me)(\s+(an?|the|this))?(\s+(image|picture|photo|one))?(\s+(of|like|with))?/i, '')
-        .trim();
-    
-    return cleaned || text;
-}
-
-// Helper function to get inline image data
-function getInlineImage(candidates: any[] | undefined) {
-    if (!candidates || candidates.length === 0) return null;
-    const parts = candidates[0].content.parts;
-    for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-            return part.inlineData;
+    } else if (interaction.isButton()) {
+        if (interaction.customId.startsWith('intent:')) {
+            await handleIntentButton(interaction);
+        } else if (isCancelButton(interaction.customId)) {
+            await handleCancelButton(interaction);
+        } else if (variantActions.isVariantButton(interaction.customId)) {
+            await variantActions.handleButton(interaction);
+        } else if (galleryCommand.isGalleryButton(interaction.customId)) {
+            await galleryCommand.handleButton(interaction);
+        } else if (isStudioButton(interaction.customId)) {
+            await handleStudioButton(interaction);
         }
-    }
-    return null;
-}
-
-// Helper function to check if channel supports typing
-function supportsTyping(channel: any): channel is { sendTyping: () => Promise<void> } {
-    return 'sendTyping' in channel && typeof channel.sendTyping === 'function';
-}
-
-// Process image generation
-async function generateImages(
-    message: Message, 
-    promptText: string, 
-    previousGeneratedImages: any[] = [],
-    isRegeneration: boolean = false,
-    extraAttachments: any[] = []
-): Promise<void> {
-    let statusMessage: Message | null = null;
-    let progressInterval: NodeJS.Timeout | null = null;
-
-    try {
-        console.log(`[DEBUG] Generating images: ${promptText}`);
-        if (supportsTyping(message.channel)) {
-            await message.channel.sendTyping();
-        }
-        
-        const statusText = isRegeneration 
-            ? "🔄 **Regenerating with modifications...** Please wait."
-            : "🎨 **Generating variants...** Please wait.";
-        statusMessage = await message.reply(statusText);
-
-        // Keep typing indicator active
-        progressInterval = setInterval(() => {
-            if (supportsTyping(message.channel)) {
-                message.channel.sendTyping().catch(() => {});
-            }
-        }, 5000);
-
-        // Prepare prompt with better structure
-        const finalPrompt = `
-<system_instructions>
-Generate an image based on the user's prompt.
-Default Aspect Ratio: 16:9 Landscape (unless the user specifies otherwise).
-Maintain high visual fidelity and follow the style instructions closely.
-</system_instructions>
-
-<user_prompt>
-${promptText}
-</user_prompt>
-`.trim();
-
-        console.log(`[DEBUG] Final Prompt: ${finalPrompt}`);
-        const inputs: any[] = [finalPrompt];
-
-        // Add previously generated images for regeneration
-        if (previousGeneratedImages.length > 0) {
-            inputs.push(...previousGeneratedImages);
-            console.log(`[DEBUG] Added ${previousGeneratedImages.length} previously generated images for regeneration.`);
-        }
-
-        // Add extra attachments (from replies)
-        if (extraAttachments.length > 0) {
-            inputs.push(...extraAttachments);
-            console.log(`[DEBUG] Added ${extraAttachments.length} extra attachments from reply context.`);
-        }
-
-        // Process message attachments (only if NOT regenerating - new attachments override generated images)
-        if (message.attachments.size > 0 && !isRegeneration) {
-            console.log(`[DEBUG] Processing ${message.attachments.size} attachments...`);
-            const attachmentPromises = Array.from(message.attachments.values()).map(async (attachment) => {
-                if (!attachment.contentType?.startsWith('image/')) {
-                    console.log(`[DEBUG] Skipping attachment (not image): ${attachment.name}`);
-                    return null;
-                }
-
-                try {
-                    console.log(`[DEBUG] Fetching attachment: ${attachment.url}`);
-                    const response = await fetch(attachment.url);
-                    const arrayBuffer = await response.arrayBuffer();
-                    return {
-                        inlineData: {
-                            data: Buffer.from(arrayBuffer).toString('base64'),
-                            mimeType: attachment.contentType
-                        }
-                    };
-                } catch (err: any) {
-                    console.error(`Failed to download attachment: ${err.message}`);
-                    return null;
-                }
-            });
-
-            const attachments = (await Promise.all(attachmentPromises)).filter(a => a !== null);
-            inputs.push(...attachments);
-            console.log(`[DEBUG] Added ${attachments.length} message attachments.`);
-        }
-
-        // Call Gemini API
-        console.log(`[DEBUG] Calling Gemini API with model: ${IMAGE_MODEL_NAME}`);
-        const model = genAI.getGenerativeModel({ model: IMAGE_MODEL_NAME });
-        
-        // Generate 2 variants in parallel
-        const variantCount = 3;
-        const generationPromises = Array(variantCount).fill(null).map(() => model.generateContent(inputs));
-
-        console.log(`[DEBUG] Waiting for ${variantCount} generations...`);
-        const results = await Promise.all(generationPromises);
-        
-        // Handle responses
-        if (progressInterval) clearInterval(progressInterval);
-
-        const attachments: AttachmentBuilder[] = [];
-        const generatedImageData: any[] = []; // Store for metadata
-        let combinedText = "";
-
-        for (let i = 0; i < results.length; i++) {
-            const result = results[i];
-            const response = await result.response;
-            
-            // Check for text
-            try {
-                const text = response.text();
-                if (text) combinedText += `Variant ${i+1}: ${text}\n`;
-            } catch (e) {
-                // Ignore text error
-            }
-
-            const imageData = getInlineImage(response.candidates);
-            if (imageData) {
-                const buffer = Buffer.from(imageData.data, 'base64');
-                attachments.push(new AttachmentBuilder(buffer, { name: `generated_variant_${i+1}.png` }));
-                
-                // Store the image data for potential regeneration
-                generatedImageData.push({
-                    inlineData: {
-                        data: imageData.data,
-                        mimeType: imageData.mimeType
-                    }
-                });
-            }
-        }
-
-        if (attachments.length > 0) {
-            const replyMessage = await statusMessage.edit({ 
-                content: combinedText ? `Generated Images:\n${combinedText}` : "Here are your generated variants:", 
-                files: attachments 
-            });
-            
-            // Store metadata for potential regeneration with the generated images
-            imageMetadata.set(replyMessage.id, {
-                prompt: promptText,
-                generatedImages: generatedImageData
-            });
-        } else if (combinedText) {
-            await statusMessage.edit(combinedText);
-        } else {
-            await statusMessage.edit("Generation finished, but no output (text or image) was found in the responses.");
-        }
-
-    } catch (error: any) {
-        if (progressInterval) clearInterval(progressInterval);
-        console.error('Generation Error:', error);
-        
-        let errorMessage = "An error occurred during generation.";
-        if (error.message?.includes('API key')) errorMessage = "Invalid or missing API Key.";
-        if (error.message?.includes('model')) errorMessage = `Model "${IMAGE_MODEL_NAME}" not found or not accessible. Check your API access.`;
-        
-        if (statusMessage) {
-            if (error.message?.includes('429') || error.message?.includes('Quota exceeded')) {
-                await statusMessage.edit(`❌ **Quota Exceeded / Rate Limited**\nThe API returned a "Too Many Requests" error. This usually means:\n1. You are on the Free Tier and this model (${IMAGE_MODEL_NAME}) is not available for free (Limit: 0).\n2. Or you have hit the rate limit for the minute/day.\n\nPlease check your Google AI Studio billing settings.`);
-            } else {
-                await statusMessage.edit(`❌ ${errorMessage}`);
-            }
-        } else {
-            message.reply(errorMessage);
+    } else if (interaction.isModalSubmit()) {
+        if (variantActions.isVariantModal(interaction.customId)) {
+            await variantActions.handleModal(interaction);
         }
     }
 }
 
-// Process text conversation
-async function handleTextConversation(message: Message, content: string, replyToMessageId?: string): Promise<void> {
-    let statusMessage: Message | null = null;
-    
-    try {
-        if (supportsTyping(message.channel)) {
-            await message.channel.sendTyping();
-        }
-        
-        // Get or create conversation history
-        const historyKey = replyToMessageId || message.id;
-        let history = conversationHistory.get(historyKey) || [];
-        
-        // Add user message to history
-        history.push({
-            role: 'user',
-            parts: content
-        });
-        
-        // Create chat session with history
-        const model = genAI.getGenerativeModel({ model: TEXT_MODEL_NAME });
-        const chat = model.startChat({
-            history: history.map(msg => ({
-                role: msg.role,
-                parts: [{ text: msg.parts }]
-            }))
-        });
-        
-        // Send message and get response
-        const result = await chat.sendMessage(content);
-        const response = await result.response;
-        const text = response.text();
-        
-        // Add model response to history
-        history.push({
-            role: 'model',
-            parts: text
-        });
-        
-        // Store updated history
-        conversationHistory.set(historyKey, history);
-        
-        // Send response
-        const replyMessage = await message.reply(text);
-        
-        // Store this message's history for threading
-        conversationHistory.set(replyMessage.id, history);
-        
-    } catch (error: any) {
-        console.error('Text Conversation Error:', error);
-        
-        let errorMessage = "An error occurred while processing your message.";
-        if (error.message?.includes('API key')) errorMessage = "Invalid or missing API Key.";
-        
-        message.reply(`❌ ${errorMessage}`);
-    }
-}
-
 client.on('messageCreate', async (message: Message) => {
     // Ignore bots
     if (message.author.bot) return;
 
+    // Every message in a studio thread is an edit step, mention or not
+    if (await handleStudioMessage(message)) return;
+
     // Check if the bot is mentioned
     if (!message.mentions.has(client.user!)) return;
 
-    // Remove the mention from the content
-    const content = message.content.replace(/<@!?[0-9]+>/g, '').trim();
+    // Remove the mention and any "preset:<name>" from the content
+    const { name: presetName, text: content } = extractPresetName(message.content.replace(/<@!?[0-9]+>/g, '').trim());
     
     if (!content) {
         message.reply("How can I help you? I can generate images or have a conversation with you!");
         return;
     }
 
+    if (presetName && !(await getPreset(message.guildId, presetName))) {
+        await message.reply(`Unknown preset \`${presetName}\`. See \`/preset list\`.`);
+        return;
+    }
+
+    let repliedTo: Message | null = null;
+
     // Check if this is a reply to a bot message
     if (message.reference?.messageId) {
         try {
@@ -365,67 +218,182 @@ client.on('messageCreate', async (message: Message) => {
             // Check if replying to the bot
             if (repliedMessage.author.id === client.user!.id) {
                 // Check if replying to an image generation
-                if (imageMetadata.has(repliedMessage.id)) {
-                    const metadata = imageMetadata.get(repliedMessage.id)!;
-                    
-                    // Regenerate with modified prompt and the previously generated images
+                const metadata = await imageMetadata.get(repliedMessage.id);
+                if (metadata) {
+                    // Regenerate with modified prompt and the previously generated images,
+                    // plus any images attached to the reply itself
+                    const references = await ingestWithNote(message, collectImageSources(message));
                     const modifiedPrompt = `${metadata.prompt}, ${content}`;
-                    await generateImages(message, modifiedPrompt, metadata.generatedImages || [], true);
+                    // Studio edit instructions replace prompt chaining, so they don't carry over to it
+                    const { systemInstructions, ...settings } = metadata.settings ?? {};
+                    await generateImages(messageTarget(message), {
+                        ...settings,
+                        ...(presetName ? { preset: presetName } : {}),
+                        prompt: modifiedPrompt,
+                        previousGeneratedImages: metadata.variants.map(variant => variant.image),
+                        references,
+                        isRegeneration: true,
+                        provider: metadata.provider
+                    });
                     return;
                 }
                 
                 // Check if replying to a text conversation
-                if (conversationHistory.has(repliedMessage.id)) {
+                if (await hasConversation(repliedMessage.id)) {
                     await handleTextConversation(message, content, repliedMessage.id);
                     return;
                 }
             } else {
-                // Replying to a user message - check for attachments to use as context
-                if (wantsImageGeneration(content) && repliedMessage.attachments.size > 0) {
-                    console.log(`[DEBUG] User replied to a message with ${repliedMessage.attachments.size} attachments.`);
-                    
-                    const attachmentPromises = Array.from(repliedMessage.attachments.values()).map(async (attachment) => {
-                        if (!attachment.contentType?.startsWith('image/')) return null;
-                        try {
-                            const response = await fetch(attachment.url);
-                            const arrayBuffer = await response.arrayBuffer();
-                            return {
-                                inlineData: {
-                                    data: Buffer.from(arrayBuffer).toString('base64'),
-                                    mimeType: attachment.contentType
-                                }
-                            };
-                        } catch (err) {
-                            console.error(`Failed to download replied attachment:`, err);
-                            return null;
-                        }
-                    });
-
-                    const extraAttachments = (await Promise.all(attachmentPromises)).filter(a => a !== null);
-                    
-                    const prompt = extractPrompt(content);
-                    await generateImages(message, prompt, [], false, extraAttachments);
-                    return;
-                }
+                // Replying to a user message - its images and files are used alongside this message's own
+                console.log(`[DEBUG] User replied to a message with ${collectImageSources(repliedMessage).length} images.`);
+                repliedTo = repliedMessage;
             }
         } catch (err) {
             console.error('Error fetching replied message:', err);
         }
     }
 
-    // Detect intent: image generation or text conversation
-    if (wantsImageGeneration(content)) {
-        // if (true) {
-        //     await message.reply(`❌ **Quota Exceeded**\nThe API returned a "Too Many Requests" error. This usually means:\n1. You are on the Free Tier and this model (${IMAGE_MODEL_NAME}) is not available for free (Limit: 0).\n2. Or you have hit the rate limit for the minute/day.\n\nPlease check your Google AI Studio billing settings.`);
-        //     return;
-        // }
-        
-        const prompt = extractPrompt(content);
-        await generateImages(message, prompt);
-    } else {
-        await handleTextConversation(message, content);
+    // Detect intent: image generation, edit, config help or text conversation
+    const hasImages = collectImageSources(message).length > 0
+        || (repliedTo !== null && collectImageSources(repliedTo).length > 0);
+
+    // Naming a preset always means an image is wanted
+    if (presetName) {
+        await runIntent(message, content, hasImages ? 'edit' : 'image', content, repliedTo, presetName);
+        return;
+    }
+
+    const classification = await classifyIntent(content, { hasImages });
+
+    if (classification.confidence < INTENT_CONFIDENCE_THRESHOLD && classification.intent !== 'config-help') {
+        await askIntent(message, content, classification);
+        return;
     }
+
+    await runIntent(message, content, classification.intent, classification.prompt, repliedTo);
 });
 
+/** `repliedTo` is the user message `message` replies to, if any; its images and files are used too */
+async function runIntent(
+    message: Message,
+    content: string,
+    intent: Intent,
+    prompt: string,
+    repliedTo: Message | null,
+    preset?: string
+): Promise<void> {
+    if (intent === 'config-help') {
+        await message.reply(configCommand.helpText);
+        return;
+    }
+
+    if (intent === 'image' || intent === 'edit') {
+        const sources = [...(repliedTo ? collectImageSources(repliedTo) : []), ...collectImageSources(message)];
+        const references = await ingestWithNote(message, sources);
+        await generateImages(messageTarget(message), { prompt, references, preset });
+    } else {
+        const attachments = [
+            ...(repliedTo?.attachments.values() ?? []),
+            ...message.attachments.values()
+        ];
+        await handleTextConversation(message, content, undefined, attachments);
+    }
+}
+
+/** Download reference images, telling the user about any that had to be left out */
+async function ingestWithNote(message: Message, sources: ImageSource[]): Promise<InlineImage[]> {
+    if (sources.length === 0) return [];
+
+    const { images, skipped } = await ingestReferenceImages(sources);
+    if (skipped.length > 0) {
+        await message.reply({
+            content: `⚠️ Some reference images were left out:\n${skipped.map(reason => `- ${reason}`).join('\n')}`,
+            allowedMentions: { repliedUser: false }
+        });
+    }
+    return images;
+}
+
+async function fetchRepliedUserMessage(message: Message): Promise<Message | null> {
+    if (!message.reference?.messageId) return null;
+    try {
+        const repliedMessage = await message.channel.messages.fetch(message.reference.messageId);
+        return repliedMessage.author.id === client.user!.id ? null : repliedMessage;
+    } catch (err) {
+        console.error('Error fetching replied message:', err);
+        return null;
+    }
+}
+
+// Low-confidence classification: let the user decide between an image and chat
+async function askIntent(message: Message, content: string, classification: IntentResult): Promise<void> {
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId('intent:image')
+            .setLabel('Generate image')
+            .setEmoji('🎨')
+            .setStyle(ButtonStyle.Primary),
+        new ButtonBuilder()
+            .setCustomId('intent:chat')
+            .setLabel('Just chat')
+            .setEmoji('💬')
+            .setStyle(ButtonStyle.Secondary)
+    );
+
+    const prompt = await message.reply({
+        content: 'Did you mean to generate an image?',
+        components: [row]
+    });
+
+    await pendingIntents.set(prompt.id, {
+        userId: message.author.id,
+        channelId: message.channelId,
+        messageId: message.id,
+        content,
+        prompt: classification.prompt,
+        intent: classification.intent
+    });
+}
+
+async function handleIntentButton(interaction: ButtonInteraction): Promise<void> {
+    const pending = await pendingIntents.get(interaction.message.id);
+
+    if (!pending) {
+        await interaction.update({ content: 'This question has expired. Mention me again.', components: [] });
+        return;
+    }
+
+    if (interaction.user.id !== pending.userId) {
+        await interaction.reply({ content: 'Only the person who asked can answer this.', ephemeral: true });
+        return;
+    }
+
+    await pendingIntents.delete(interaction.message.id);
+
+    let message: Message;
+    try {
+        message = await interaction.message.channel.messages.fetch(pending.messageId);
+    } catch (err) {
+        console.error('Error fetching the message an intent question was about:', err);
+        await interaction.reply({ content: 'Your original message is gone, so there is nothing to answer. Mention me again.', ephemeral: true });
+        return;
+    }
+
+    const wantsImage = interaction.customId === 'intent:image';
+    await interaction.update({ 
+        content: wantsImage ? '🎨 Generating an image.' : '💬 Answering as chat.', 
+        components: [] 
+    });
+
+    const repliedTo = await fetchRepliedUserMessage(message);
+    if (wantsImage) {
+        // A "chat" classification carries the raw text as its prompt, which is still the best prompt we have
+        const intent = pending.intent === 'edit' ? 'edit' : 'image';
+        await runIntent(message, pending.content, intent, pending.prompt, repliedTo);
+    } else {
+        await runIntent(message, pending.content, 'chat', pending.prompt, repliedTo);
+    }
+}
+
 // Login
 client.login(process.env.DISCORD_TOKEN);
@@ -0,0 +1,119 @@
+// Decides what a mention is asking for: an image, an edit of an attached image, chat, or config help
+
+import { GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+
+export const INTENTS = ['image', 'edit', 'chat', 'config-help'] as const;
+export type Intent = (typeof INTENTS)[number];
+
+export interface IntentResult {
+    intent: Intent;
+    /** The image prompt with conversational filler removed (the original text for chat) */
+    prompt: string;
+    confidence: number;
+    source: 'model' | 'keywords';
+}
+
+export interface IntentContext {
+    /** Whether images are attached to the message or the message it replies to */
+    hasImages: boolean;
+}
+
+export type IntentClassifier = (text: string, context: IntentContext) => Promise<IntentResult>;
+
+const CLASSIFIER_INSTRUCTION = `
+You route messages sent to a Discord bot that can generate images and chat.
+Classify the user's message into exactly one intent:
+- "image": the user wants a new image generated.
+- "edit": the user wants an attached or referenced image changed.
+- "chat": anything else, including questions ABOUT art, images or design.
+- "config-help": the user is asking how to view or change the bot's backend configuration (/config).
+
+"prompt" must be the image description only, without requests like "can you draw" or "make me an image of".
+For "chat" and "config-help", "prompt" is the original message unchanged.
+"confidence" is a number from 0 to 1.
+`.trim();
+
+const RESPONSE_SCHEMA: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        intent: { type: SchemaType.STRING, format: 'enum', enum: [...INTENTS] },
+        prompt: { type: SchemaType.STRING },
+        confidence: { type: SchemaType.NUMBER }
+    },
+    required: ['intent', 'prompt', 'confidence']
+};
+
+export function createIntentClassifier(genAI: GoogleGenerativeAI, modelName: string): IntentClassifier {
+    const model = genAI.getGenerativeModel({
+        model: modelName,
+        systemInstruction: CLASSIFIER_INSTRUCTION,
+        generationConfig: {
+            responseMimeType: 'application/json',
+            responseSchema: RESPONSE_SCHEMA,
+            temperature: 0
+        }
+    });
+
+    return async (text, context) => {
+        try {
+            const input = context.hasImages ? `[The user attached or referenced image(s)]\n${text}` : text;
+            const result = await model.generateContent(input);
+            const parsed = JSON.parse(result.response.text());
+
+            if (!INTENTS.includes(parsed.intent) || typeof parsed.prompt !== 'string') {
+                throw new Error(`Unexpected classifier output: ${result.response.text()}`);
+            }
+
+            const classification: IntentResult = {
+                intent: parsed.intent,
+                prompt: parsed.prompt.trim() || text,
+                confidence: Math.min(Math.max(Number(parsed.confidence) || 0, 0), 1),
+                source: 'model'
+            };
+            console.log(`[DEBUG] Intent: ${classification.intent} (${classification.confidence})`);
+            return classification;
+        } catch (error) {
+            console.error('Intent classification failed, falling back to keywords:', error);
+            return classifyWithKeywords(text, context);
+        }
+    };
+}
+
+/**
+ * Offline fallback used when the classifier model is unavailable.
+ * Keyword matches misfire on ordinary chat, so image intents come back with
+ * low confidence and get confirmed by the user.
+ */
+export function classifyWithKeywords(text: string, context: IntentContext): IntentResult {
+    if (!wantsImageGeneration(text)) {
+        return { intent: 'chat', prompt: text, confidence: 1, source: 'keywords' };
+    }
+    return {
+        intent: context.hasImages ? 'edit' : 'image',
+        prompt: extractPrompt(text),
+        confidence: 0.5,
+        source: 'keywords'
+    };
+}
+
+// Helper function to detect if user wants image generation
+function wantsImageGeneration(text: string): boolean {
+    const imageKeywords = [
+        'generate', 'create', 'make', 'draw', 'image', 'picture', 
+        'photo', 'render', 'art', 'artwork', 'illustration', 'sketch',
+        'design', 'visualize', 'show me', 'paint'
+    ];
+    
+    const lowerText = text.toLowerCase();
+    return imageKeywords.some(keyword => lowerText.includes(keyword));
+}
+
+// Helper function to extract prompt from text
+function extractPrompt(text: string): string {
+    // Remove common prefixes more aggressively
+    const cleaned = text
+        .replace(/^(generate|create|make|draw|show me|paint|give me)(\s+(an?|the|this))?(\s+(image|picture|photo|one))?(\s+(of|like|with))?/i, '')
+        .trim();
+    
+    return cleaned || text;
+}
@@ -0,0 +1,162 @@
+// In-process job queue with a fixed worker count, round-robin fairness between users and cancellation
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job was cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+export interface JobHooks {
+    /** Called with the 1-based queue position whenever it changes while the job is waiting */
+    onPosition?: (position: number) => void;
+    /** Called when a worker picks the job up */
+    onStart?: () => void;
+}
+
+export interface JobHandle<T> {
+    id: string;
+    promise: Promise<T>;
+    cancel(): boolean;
+}
+
+interface QueuedJob {
+    id: string;
+    userId: string;
+    controller: AbortController;
+    hooks: JobHooks;
+    lastPosition: number | null;
+    start(): void;
+    reject(error: Error): void;
+}
+
+export class JobQueue {
+    // Waiting jobs grouped per user; users are served in rotation so one user's burst can't starve others
+    private readonly waiting = new Map<string, QueuedJob[]>();
+    private readonly running = new Map<string, QueuedJob>();
+    // Dispatch tick at which each user last had a job started; users served longest ago go first
+    private readonly lastServed = new Map<string, number>();
+    private tick = 0;
+    constructor(private readonly concurrency: number) {}
+
+    /**
+     * Queue `task` under a caller-chosen unique `id`, so the ID can be shown (e.g. in a
+     * cancel button) before any hook fires.
+     */
+    enqueue<T>(id: string, userId: string, task: (signal: AbortSignal) => Promise<T>, hooks: JobHooks = {}): JobHandle<T> {
+        const controller = new AbortController();
+
+        const promise = new Promise<T>((resolve, reject) => {
+            const job: QueuedJob = {
+                id,
+                userId,
+                controller,
+                hooks,
+                lastPosition: null,
+                start: () => {
+                    hooks.onStart?.();
+                    task(controller.signal)
+                        // SDKs throw their own abort errors; report every abort the same way
+                        .then(resolve, error => reject(controller.signal.aborted ? new JobCancelledError() : error))
+                        .finally(() => {
+                            this.running.delete(id);
+                            this.drain();
+                        });
+                },
+                reject
+            };
+
+            const userJobs = this.waiting.get(userId) ?? [];
+            userJobs.push(job);
+            this.waiting.set(userId, userJobs);
+        });
+
+        this.drain();
+        return { id, promise, cancel: () => this.cancel(id) };
+    }
+
+    /** Cancel a waiting job, or abort a running one. Returns false if the job is unknown. */
+    cancel(id: string): boolean {
+        const running = this.running.get(id);
+        if (running) {
+            running.controller.abort(new JobCancelledError());
+            return true;
+        }
+
+        for (const [userId, jobs] of this.waiting) {
+            const index = jobs.findIndex(job => job.id === id);
+            if (index === -1) continue;
+
+            const [job] = jobs.splice(index, 1);
+            if (jobs.length === 0) this.waiting.delete(userId);
+            job.reject(new JobCancelledError());
+            this.notifyPositions();
+            return true;
+        }
+
+        return false;
+    }
+
+    /** The user a waiting or running job belongs to */
+    owner(id: string): string | null {
+        const running = this.running.get(id);
+        if (running) return running.userId;
+        return this.dispatchOrder().find(job => job.id === id)?.userId ?? null;
+    }
+
+    /** 1-based position among waiting jobs, 0 while running, null when unknown */
+    position(id: string): number | null {
+        if (this.running.has(id)) return 0;
+        const index = this.dispatchOrder().findIndex(job => job.id === id);
+        return index === -1 ? null : index + 1;
+    }
+
+    get size(): { running: number; waiting: number } {
+        return { running: this.running.size, waiting: this.dispatchOrder().length };
+    }
+
+    // Interleave the per-user queues: first job of each user in rotation order, then the second, ...
+    private dispatchOrder(): QueuedJob[] {
+        const queues = Array.from(this.waiting.entries())
+            .sort(([a], [b]) => (this.lastServed.get(a) ?? -1) - (this.lastServed.get(b) ?? -1))
+            .map(([, jobs]) => jobs);
+        const order: QueuedJob[] = [];
+        for (let round = 0; order.length < queues.reduce((n, q) => n + q.length, 0); round++) {
+            for (const queue of queues) {
+                if (round < queue.length) order.push(queue[round]);
+            }
+        }
+        return order;
+    }
+
+    private drain(): void {
+        while (this.running.size < this.concurrency) {
+            const [next] = this.dispatchOrder();
+            if (!next) break;
+
+            const userJobs = this.waiting.get(next.userId)!;
+            userJobs.shift();
+            if (userJobs.length === 0) this.waiting.delete(next.userId);
+            this.lastServed.set(next.userId, this.tick++);
+
+            this.running.set(next.id, next);
+            next.start();
+        }
+        this.notifyPositions();
+    }
+
+    private notifyPositions(): void {
+        // Forget users with nothing waiting or running, so the map doesn't grow forever
+        for (const userId of this.lastServed.keys()) {
+            const active = this.waiting.has(userId) || Array.from(this.running.values()).some(job => job.userId === userId);
+            if (!active) this.lastServed.delete(userId);
+        }
+
+        this.dispatchOrder().forEach((job, index) => {
+            const position = index + 1;
+            if (job.lastPosition === position) return;
+            job.lastPosition = position;
+            job.hooks.onPosition?.(position);
+        });
+    }
+}
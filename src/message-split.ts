@@ -0,0 +1,60 @@
+// Splitting long text into Discord-sized messages without breaking code blocks
+
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+// Room for the "\n```" that closes a code block cut in half
+const FENCE_CLOSE = '\n```';
+
+/**
+ * Split `text` into chunks of at most `limit` characters. Cuts prefer paragraph breaks, then
+ * line breaks, then spaces. A code block that spans a cut is closed at the end of one chunk
+ * and reopened (with its language) at the start of the next.
+ */
+export function splitMessage(text: string, limit: number = DISCORD_MESSAGE_LIMIT): string[] {
+    const chunks: string[] = [];
+    let rest = text;
+    let openFence: string | null = null;
+
+    while (rest.length > 0) {
+        const prefix = openFence ? `${openFence}\n` : '';
+        if (prefix.length + rest.length <= limit) {
+            chunks.push(prefix + rest);
+            break;
+        }
+
+        const cut = findBreak(rest, limit - prefix.length - FENCE_CLOSE.length);
+        const piece = rest.slice(0, cut).trimEnd();
+        openFence = trackFence(openFence, piece);
+
+        chunks.push(prefix + piece + (openFence ? FENCE_CLOSE : ''));
+        // Blank lines at a cut are dropped outside code blocks; inside one only the line break is
+        rest = openFence ? rest.slice(cut).replace(/^\n/, '') : rest.slice(cut).replace(/^\s+/, '');
+    }
+
+    return chunks.filter(chunk => chunk.trim().length > 0);
+}
+
+/** Best cut position at or before `max` */
+function findBreak(text: string, max: number): number {
+    if (text.length <= max) return text.length;
+
+    const candidates: [string, number][] = [['\n\n', 0.5], ['\n', 0.3], [' ', 0.3]];
+    for (const [separator, minFraction] of candidates) {
+        const index = text.lastIndexOf(separator, max - separator.length);
+        if (index > max * minFraction) return index + separator.length;
+    }
+
+    // No good break: cut hard, but never between the halves of a surrogate pair
+    const code = text.charCodeAt(max - 1);
+    return code >= 0xD800 && code <= 0xDBFF ? max - 1 : max;
+}
+
+/** The fence line (e.g. "```ts") still open after `piece`, given the one open before it */
+function trackFence(openFence: string | null, piece: string): string | null {
+    let fence = openFence;
+    for (const line of piece.split('\n')) {
+        const match = line.trim().match(/^```(\S*)/);
+        if (match) fence = fence ? null : `\`\`\`${match[1]}`;
+    }
+    return fence;
+}
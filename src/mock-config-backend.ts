@@ -0,0 +1,166 @@
+// Self-contained stand-in for the config API, for local development and tests.
+// Run with `npm run mock-backend`, then point an environment at it, e.g.
+// API_URL_DEV=http://localhost:8787/dev and API_KEY_DEV=mock-key.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { CONFIG_DEFAULTS } from './config-service.js';
+
+/** The two response shapes `fetchConfig` accepts */
+export type MockResponseShape = 'nested' | 'root';
+
+export interface MockConfigBody {
+    configs: Record<string, unknown>;
+    defaults: Record<string, unknown>;
+}
+
+/** What GET and POST return in the nested shape */
+export interface MockNestedResponse {
+    success: true;
+    data: MockConfigBody;
+}
+
+/** An error every request answers with until cleared, like a backend outage */
+export interface MockFailure {
+    status: number;
+    message: string;
+}
+
+export interface MockBackendOptions {
+    /** Value the Authorization header must carry */
+    apiKey?: string;
+    /** Header the WAF expects; requests without it get a 403 like the real gateway */
+    wafHeader?: { name: string; value: string };
+    shape?: MockResponseShape;
+    /** Initial values for every environment path (defaults to CONFIG_DEFAULTS) */
+    configs?: Record<string, unknown>;
+}
+
+export interface MockBackend {
+    url: string;
+    server: http.Server;
+    /** Current values for a path such as `/dev`, created on first use */
+    getConfigs(pathname: string): Record<string, unknown>;
+    /** Bodies of every POST received, oldest first */
+    updates: { pathname: string; body: Record<string, unknown> }[];
+    setShape(shape: MockResponseShape): void;
+    /** Fail every request with `failure`; null restores normal responses */
+    setFailure(failure: MockFailure | null): void;
+    close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Start the mock on `port` (0 picks a free one). Each URL path is its own environment, so one
+ * server can stand in for Dev and Prod at `/dev` and `/prod`.
+ *
+ * - `GET` returns `{ data: { configs, defaults } }` (nested) or `{ configs, defaults }` (root)
+ * - `POST` takes a JSON object of key/value pairs, merges it and returns the same shape
+ */
+export async function startMockBackend(port: number = 0, options: MockBackendOptions = {}): Promise<MockBackend> {
+    const { apiKey = 'mock-key', wafHeader, configs: initial = { ...CONFIG_DEFAULTS } } = options;
+    let shape: MockResponseShape = options.shape ?? 'nested';
+    let failure: MockFailure | null = null;
+
+    const environments = new Map<string, Record<string, unknown>>();
+    const updates: MockBackend['updates'] = [];
+
+    const getConfigs = (pathname: string) => {
+        if (!environments.has(pathname)) environments.set(pathname, { ...initial });
+        return environments.get(pathname)!;
+    };
+
+    const respond = (res: http.ServerResponse, status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    };
+
+    const payload = (configs: Record<string, unknown>): MockNestedResponse | MockConfigBody => {
+        const body: MockConfigBody = { configs, defaults: CONFIG_DEFAULTS };
+        return shape === 'nested' ? { success: true, data: body } : body;
+    };
+
+    const server = http.createServer(async (req, res) => {
+        const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+        if (wafHeader && req.headers[wafHeader.name.toLowerCase()] !== wafHeader.value) {
+            respond(res, 403, { message: 'Forbidden' });
+            return;
+        }
+        if (req.headers.authorization !== apiKey) {
+            respond(res, 401, { message: 'Unauthorized' });
+            return;
+        }
+        if (failure) {
+            respond(res, failure.status, { message: failure.message });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            respond(res, 200, payload(getConfigs(pathname)));
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            respond(res, 405, { message: `Method ${req.method} not allowed` });
+            return;
+        }
+
+        let raw = '';
+        for await (const chunk of req) {
+            raw += chunk;
+            if (raw.length > MAX_BODY_BYTES) {
+                respond(res, 413, { message: 'Body too large' });
+                return;
+            }
+        }
+
+        let body: unknown;
+        try {
+            body = JSON.parse(raw);
+        } catch {
+            respond(res, 400, { message: 'Body must be JSON' });
+            return;
+        }
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            respond(res, 400, { message: 'Body must be an object of key/value pairs' });
+            return;
+        }
+
+        updates.push({ pathname, body: body as Record<string, unknown> });
+        Object.assign(getConfigs(pathname), body);
+        respond(res, 200, payload(getConfigs(pathname)));
+    });
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    const address = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${address.port}`,
+        server,
+        getConfigs,
+        updates,
+        setShape: next => { shape = next; },
+        setFailure: next => { failure = next; },
+        close: () => new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+    };
+}
+
+// Started directly (`npm run mock-backend`) rather than imported by tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = Number(process.env.MOCK_BACKEND_PORT ?? 8787);
+    const shape = process.env.MOCK_BACKEND_SHAPE === 'root' ? 'root' : 'nested';
+    const wafHeader = process.env.WAF_HEADER_NAME && process.env.WAF_HEADER_VALUE
+        ? { name: process.env.WAF_HEADER_NAME, value: process.env.WAF_HEADER_VALUE }
+        : undefined;
+
+    const backend = await startMockBackend(port, {
+        apiKey: process.env.MOCK_BACKEND_KEY ?? 'mock-key',
+        wafHeader,
+        shape
+    });
+    console.log(`Mock config backend listening on ${backend.url} (${shape} responses)`);
+    console.log(`Each path is a separate environment, e.g. API_URL_DEV=${backend.url}/dev`);
+}
@@ -0,0 +1,190 @@
+// Content moderation: per-guild prompt blocklists and a log of refused generations
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Client, EmbedBuilder } from 'discord.js';
+import { createStore, getStorageDir } from './storage/index.js';
+import { SafetyBlock } from './providers/index.js';
+
+export interface ModerationSettings {
+    /** Words or phrases (matched whole-word, case-insensitive) or /regular expressions/ */
+    blockedTerms: string[];
+    /** Channel refusals are posted to for review */
+    logChannelId?: string;
+}
+
+export type RefusalStage = 'blocklist' | SafetyBlock['stage'];
+
+export interface Refusal {
+    id: number;
+    timestamp: string;
+    guildId: string | null;
+    channelId: string | null;
+    userId: string;
+    prompt: string;
+    stage: RefusalStage;
+    /** The blocklist term that matched, or the provider's reason code */
+    reason: string;
+    categories: string[];
+    provider?: string;
+    model?: string;
+}
+
+export type NewRefusal = Omit<Refusal, 'id' | 'timestamp'>;
+
+export const MAX_BLOCKED_TERMS = 200;
+
+// guildId -> settings
+const settingsStore = createStore<ModerationSettings>('moderation-settings');
+
+export async function getModerationSettings(guildId: string): Promise<ModerationSettings> {
+    return (await settingsStore.get(guildId)) ?? { blockedTerms: [] };
+}
+
+export async function updateModerationSettings(
+    guildId: string,
+    update: (settings: ModerationSettings) => ModerationSettings
+): Promise<ModerationSettings> {
+    const updated = update(await getModerationSettings(guildId));
+    await settingsStore.set(guildId, updated);
+    return updated;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** `/.../` terms are regular expressions; anything else matches as a whole word or phrase */
+export function compileTerm(term: string): RegExp {
+    const regex = term.match(/^\/(.+)\/$/);
+    if (regex) return new RegExp(regex[1], 'i');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/** Returns an error message if `term` can't be used as a blocklist entry */
+export function validateTerm(term: string): string | null {
+    if (!term.trim()) return 'The term is empty.';
+    try {
+        compileTerm(term);
+        return null;
+    } catch (err: any) {
+        return `Invalid regular expression: ${err.message}`;
+    }
+}
+
+/** The first blocklist term `text` matches in the guild, if any */
+export async function screenPrompt(guildId: string | null, text: string): Promise<string | null> {
+    if (!guildId) return null;
+    const { blockedTerms } = await getModerationSettings(guildId);
+    return blockedTerms.find(term => compileTerm(term).test(text)) ?? null;
+}
+
+/** What the user is told when a request is refused */
+export function describeRefusal(stage: RefusalStage, categories: string[] = []): string {
+    const flagged = categories.length > 0 ? ` (flagged: ${categories.join(', ')})` : '';
+    if (stage === 'blocklist') {
+        return 'Your prompt contains a term this server has blocked. Please rephrase it.';
+    }
+    if (stage === 'prompt') {
+        return `The image provider's safety filter refused this prompt${flagged}. Please rephrase it.`;
+    }
+    return `The image was generated but withheld by the provider's safety filter${flagged}. Try a different prompt.`;
+}
+
+// Refusals are cached after the first read; the file is only ever appended to
+let cache: Refusal[] | null = null;
+let writing: Promise<void> = Promise.resolve();
+
+function getRefusalLogPath(): string {
+    return path.join(getStorageDir(), 'moderation-refusals.jsonl');
+}
+
+async function load(): Promise<Refusal[]> {
+    if (cache) return cache;
+
+    let raw = '';
+    try {
+        raw = await fs.readFile(getRefusalLogPath(), 'utf8');
+    } catch (err: any) {
+        if (err.code !== 'ENOENT') throw err;
+    }
+
+    cache = raw
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as Refusal];
+            } catch {
+                console.error(`Skipping corrupt refusal line: ${line}`);
+                return [];
+            }
+        });
+    return cache;
+}
+
+export async function appendRefusal(refusal: NewRefusal): Promise<Refusal> {
+    const refusals = await load();
+    const created: Refusal = {
+        id: refusals.length > 0 ? refusals[refusals.length - 1].id + 1 : 1,
+        timestamp: new Date().toISOString(),
+        ...refusal
+    };
+    refusals.push(created);
+
+    const line = JSON.stringify(created) + '\n';
+    writing = writing.then(async () => {
+        await fs.mkdir(path.dirname(getRefusalLogPath()), { recursive: true });
+        await fs.appendFile(getRefusalLogPath(), line);
+    });
+    await writing;
+
+    return created;
+}
+
+/** Newest first */
+export async function getRecentRefusals(guildId: string, limit: number = 10, userId?: string): Promise<Refusal[]> {
+    return (await load())
+        .filter(refusal => refusal.guildId === guildId && (!userId || refusal.userId === userId))
+        .slice(-limit)
+        .reverse();
+}
+
+export function formatRefusalReason(refusal: Refusal): string {
+    const source = refusal.stage === 'blocklist'
+        ? `blocklist term \`${refusal.reason}\``
+        : `${refusal.provider ?? 'provider'} ${refusal.stage} block: ${refusal.reason}`;
+    return refusal.categories.length > 0 ? `${source} (${refusal.categories.join(', ')})` : source;
+}
+
+/** Record a refusal and post it to the guild's moderation log channel, if one is set. Never throws. */
+export async function logRefusal(client: Client, refusal: NewRefusal): Promise<void> {
+    try {
+        const created = await appendRefusal(refusal);
+        console.warn(`[MODERATION] Refused generation for ${refusal.userId} in ${refusal.guildId ?? 'DM'}: ${formatRefusalReason(created)}`);
+
+        if (!refusal.guildId) return;
+        const { logChannelId } = await getModerationSettings(refusal.guildId);
+        if (!logChannelId) return;
+
+        const channel = await client.channels.fetch(logChannelId);
+        if (!channel?.isSendable()) {
+            console.error(`Moderation log channel ${logChannelId} is not a text channel the bot can post in.`);
+            return;
+        }
+
+        const embed = new EmbedBuilder()
+            .setTitle(`🚫 Refused generation #${created.id}`)
+            .setColor(0xED4245)
+            .setDescription(created.prompt.slice(0, 4000))
+            .addFields(
+                { name: 'User', value: `<@${created.userId}>`, inline: true },
+                { name: 'Channel', value: created.channelId ? `<#${created.channelId}>` : 'unknown', inline: true },
+                { name: 'Reason', value: formatRefusalReason(created).slice(0, 1024) }
+            )
+            .setTimestamp(new Date(created.timestamp));
+        await channel.send({ embeds: [embed] });
+    } catch (err) {
+        console.error('Failed to log refusal:', err);
+    }
+}
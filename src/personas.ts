@@ -0,0 +1,106 @@
+// Chat personas: system prompts chosen per guild or per channel
+
+import { createStore } from './storage/index.js';
+
+export interface Persona {
+    name: string;
+    prompt: string;
+    /** Set for personas defined with /persona define */
+    createdBy?: string;
+}
+
+export type PersonaScope = 'guild' | 'channel';
+
+export const DEFAULT_PERSONA = 'assistant';
+export const MAX_PERSONA_PROMPT_LENGTH = 4000;
+
+export const BUILT_IN_PERSONAS: Record<string, Persona> = {
+    assistant: {
+        name: 'assistant',
+        prompt: 'You are a friendly, helpful assistant chatting in a Discord server. Answer clearly and concisely, and use Discord markdown where it helps.'
+    },
+    concise: {
+        name: 'concise',
+        prompt: 'You are a terse assistant in a Discord server. Answer in as few words as possible: one or two sentences, or a short list. Skip pleasantries.'
+    },
+    'art-director': {
+        name: 'art-director',
+        prompt: 'You are an art director helping a Discord community design trading-card art. Give concrete feedback on composition, lighting, palette and style, and suggest prompts the image generator could use.'
+    }
+};
+
+// Custom personas: guildId -> name -> persona
+const customPersonas = createStore<Record<string, Persona>>('personas');
+
+// Selected persona: "channel:<id>" or "guild:<id>" -> persona name
+const selections = createStore<string>('persona-selections');
+
+function selectionKey(scope: PersonaScope, id: string): string {
+    return `${scope}:${id}`;
+}
+
+export function normalizePersonaName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/** Built-in personas plus the guild's own; custom ones shadow built-ins of the same name */
+export async function listPersonas(guildId: string | null): Promise<Persona[]> {
+    const custom = guildId ? (await customPersonas.get(guildId)) ?? {} : {};
+    return Object.values({ ...BUILT_IN_PERSONAS, ...custom });
+}
+
+export async function getPersona(guildId: string | null, name: string): Promise<Persona | undefined> {
+    const key = normalizePersonaName(name);
+    const custom = guildId ? (await customPersonas.get(guildId)) ?? {} : {};
+    return custom[key] ?? BUILT_IN_PERSONAS[key];
+}
+
+export async function definePersona(guildId: string, persona: Persona): Promise<Persona> {
+    const saved = { ...persona, name: normalizePersonaName(persona.name) };
+    const custom = (await customPersonas.get(guildId)) ?? {};
+    await customPersonas.set(guildId, { ...custom, [saved.name]: saved });
+    return saved;
+}
+
+/** Returns false if the guild has no custom persona with that name */
+export async function deletePersona(guildId: string, name: string): Promise<boolean> {
+    const key = normalizePersonaName(name);
+    const custom = (await customPersonas.get(guildId)) ?? {};
+    if (!custom[key]) return false;
+
+    delete custom[key];
+    await customPersonas.set(guildId, custom);
+    return true;
+}
+
+/** Pass `null` to clear the selection and fall back to the next scope */
+export async function selectPersona(scope: PersonaScope, id: string, name: string | null): Promise<void> {
+    if (name === null) {
+        await selections.delete(selectionKey(scope, id));
+    } else {
+        await selections.set(selectionKey(scope, id), normalizePersonaName(name));
+    }
+}
+
+export async function getSelectedPersonaName(scope: PersonaScope, id: string): Promise<string | undefined> {
+    return selections.get(selectionKey(scope, id));
+}
+
+/**
+ * The persona for a message: the channel's (checking each id in `channelIds`, e.g. a thread
+ * then its parent), then the guild's, then the default. Selections pointing at a deleted
+ * persona are skipped.
+ */
+export async function resolvePersona(guildId: string | null, channelIds: string[]): Promise<Persona> {
+    const candidates = [
+        ...channelIds.map(id => selectionKey('channel', id)),
+        ...(guildId ? [selectionKey('guild', guildId)] : [])
+    ];
+
+    for (const key of candidates) {
+        const name = await selections.get(key);
+        const persona = name ? await getPersona(guildId, name) : undefined;
+        if (persona) return persona;
+    }
+    return BUILT_IN_PERSONAS[DEFAULT_PERSONA];
+}
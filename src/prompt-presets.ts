@@ -0,0 +1,142 @@
+// Prompt presets: named system-instruction templates with default image settings, per guild
+
+import { createStore } from './storage/index.js';
+import { ASPECT_RATIOS, AspectRatio } from './providers/index.js';
+
+export interface PromptPreset {
+    name: string;
+    description: string;
+    /** System instructions wrapped around the user's prompt. `{prompt}` is replaced with the prompt itself */
+    template: string;
+    aspectRatio: AspectRatio;
+    variantCount: number;
+    /** Set for presets defined with /preset define */
+    createdBy?: string;
+}
+
+export const MAX_PRESET_TEMPLATE_LENGTH = 2000;
+
+export const BUILT_IN_PRESETS: Record<string, PromptPreset> = {
+    'card-portrait': {
+        name: 'card-portrait',
+        description: 'Trading-card art in portrait orientation',
+        template: [
+            'Create artwork for a collectible trading card.',
+            'Single clear subject, centred, with the focal point in the upper two thirds so the card frame and text box do not cover it.',
+            'Painterly fantasy illustration with dramatic rim lighting and a softly blurred background.',
+            'No text, logos, borders or card frames in the image.'
+        ].join('\n'),
+        aspectRatio: '2:3',
+        variantCount: 3
+    },
+    banner: {
+        name: 'banner',
+        description: 'Wide header or banner image',
+        template: [
+            'Create a wide banner image.',
+            'Keep the main subject to one side and leave calm negative space for a title.',
+            'Cinematic lighting, rich but not busy detail. No text or logos.'
+        ].join('\n'),
+        aspectRatio: '16:9',
+        variantCount: 2
+    },
+    emoji: {
+        name: 'emoji',
+        description: 'Small, bold emoji or sticker',
+        template: [
+            'Create a Discord emoji.',
+            'One simple subject filling most of the frame, thick outlines, flat bold colours and a plain contrasting background.',
+            'Must stay readable at 32x32 pixels. No text.'
+        ].join('\n'),
+        aspectRatio: '1:1',
+        variantCount: 4
+    }
+};
+
+// Custom presets: guildId -> name -> preset
+const customPresets = createStore<Record<string, PromptPreset>>('prompt-presets');
+
+// Preset applied when a request doesn't name one: guildId -> preset name
+const guildDefaults = createStore<string>('prompt-preset-defaults');
+
+export function normalizePresetName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function isAspectRatio(value: string): value is AspectRatio {
+    return (ASPECT_RATIOS as readonly string[]).includes(value);
+}
+
+/** Built-in presets plus the guild's own; custom ones shadow built-ins of the same name */
+export async function listPresets(guildId: string | null): Promise<PromptPreset[]> {
+    const custom = guildId ? (await customPresets.get(guildId)) ?? {} : {};
+    return Object.values({ ...BUILT_IN_PRESETS, ...custom });
+}
+
+export async function getPreset(guildId: string | null, name: string): Promise<PromptPreset | undefined> {
+    const key = normalizePresetName(name);
+    const custom = guildId ? (await customPresets.get(guildId)) ?? {} : {};
+    return custom[key] ?? BUILT_IN_PRESETS[key];
+}
+
+export async function definePreset(guildId: string, preset: PromptPreset): Promise<PromptPreset> {
+    const saved = { ...preset, name: normalizePresetName(preset.name) };
+    const custom = (await customPresets.get(guildId)) ?? {};
+    await customPresets.set(guildId, { ...custom, [saved.name]: saved });
+    return saved;
+}
+
+/** Returns false if the guild has no custom preset with that name */
+export async function deletePreset(guildId: string, name: string): Promise<boolean> {
+    const key = normalizePresetName(name);
+    const custom = (await customPresets.get(guildId)) ?? {};
+    if (!custom[key]) return false;
+
+    delete custom[key];
+    await customPresets.set(guildId, custom);
+    return true;
+}
+
+/** Pass `null` to go back to no default preset */
+export async function setDefaultPreset(guildId: string, name: string | null): Promise<void> {
+    if (name === null) {
+        await guildDefaults.delete(guildId);
+    } else {
+        await guildDefaults.set(guildId, normalizePresetName(name));
+    }
+}
+
+export async function getDefaultPresetName(guildId: string | null): Promise<string | undefined> {
+    return guildId ? guildDefaults.get(guildId) : undefined;
+}
+
+/**
+ * The preset a generation uses: the one it names, else the guild default. A default pointing
+ * at a deleted preset is ignored.
+ */
+export async function resolvePreset(guildId: string | null, name?: string): Promise<PromptPreset | undefined> {
+    if (name) return getPreset(guildId, name);
+    const fallback = await getDefaultPresetName(guildId);
+    return fallback ? getPreset(guildId, fallback) : undefined;
+}
+
+// "preset:emoji", "preset=emoji" or "--preset emoji" anywhere in a mention
+const PRESET_PATTERN = /(?:^|\s)(?:--preset[\s=]+|preset[:=])([\w-]+)/i;
+
+/** Pull a preset name out of mention text, returning the text without it */
+export function extractPresetName(text: string): { name?: string; text: string } {
+    const match = text.match(PRESET_PATTERN);
+    if (!match) return { text };
+    return {
+        name: normalizePresetName(match[1]),
+        text: text.replace(match[0], ' ').replace(/\s{2,}/g, ' ').trim()
+    };
+}
+
+export function usesPromptPlaceholder(preset: PromptPreset): boolean {
+    return preset.template.includes('{prompt}');
+}
+
+export function renderPresetInstructions(preset: PromptPreset, prompt: string): string {
+    return preset.template.split('{prompt}').join(prompt);
+}
@@ -0,0 +1,132 @@
+// Typed errors for image generation, so callers can branch on the failure kind instead of message text
+
+import { ProviderName } from './image-provider.js';
+
+export class ImageGenerationError extends Error {
+    /** Whether the same request may succeed if simply tried again */
+    readonly retryable: boolean = false;
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+export class NoProviderError extends ImageGenerationError {}
+
+export class ProviderError extends ImageGenerationError {
+    constructor(
+        message: string,
+        readonly provider: ProviderName,
+        readonly model: string,
+        readonly status?: number,
+        options?: { cause?: unknown }
+    ) {
+        super(message, options);
+    }
+}
+
+export class RateLimitError extends ProviderError {
+    override readonly retryable = true;
+    /** Delay the provider asked for before retrying, if it sent one */
+    retryAfterMs?: number;
+}
+
+export class ServerError extends ProviderError {
+    override readonly retryable = true;
+}
+
+export class NetworkError extends ProviderError {
+    override readonly retryable = true;
+}
+
+export class AuthenticationError extends ProviderError {}
+
+export class ModelNotFoundError extends ProviderError {}
+
+export class InvalidRequestError extends ProviderError {}
+
+export interface SafetyBlock {
+    /** Whether the prompt was refused outright or the generated output was withheld */
+    stage: 'prompt' | 'output';
+    /** The provider's reason code, e.g. SAFETY, PROHIBITED_CONTENT, moderation_blocked */
+    reason: string;
+    /** Harm categories the provider flagged, when it says */
+    categories: string[];
+}
+
+/** The provider refused the request on safety grounds. Never retried, and no other provider is tried. */
+export class SafetyBlockedError extends ProviderError {
+    constructor(
+        message: string,
+        provider: ProviderName,
+        model: string,
+        readonly block: SafetyBlock,
+        status?: number,
+        options?: { cause?: unknown }
+    ) {
+        super(message, provider, model, status, options);
+    }
+}
+
+function isAbortError(error: any): boolean {
+    return error?.name === 'AbortError'
+        || error?.name === 'APIUserAbortError'
+        || error?.name === 'GoogleGenerativeAIAbortError';
+}
+
+/** Parses Gemini's RetryInfo detail ("30s") or an HTTP Retry-After header (seconds). */
+function parseRetryAfter(error: any): number | undefined {
+    const retryInfo = error?.errorDetails?.find((detail: any) => detail?.retryDelay);
+    const raw = retryInfo?.retryDelay ?? error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+    const seconds = parseFloat(String(raw ?? ''));
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+/**
+ * Convert an SDK or fetch error into the matching ProviderError subclass.
+ * Abort errors are returned untouched so cancellation is never retried.
+ */
+export function toProviderError(error: any, provider: ProviderName, model: string): unknown {
+    if (error instanceof ImageGenerationError || isAbortError(error)) return error;
+
+    const message: string = error?.message ?? String(error);
+    const status: number | undefined = typeof error?.status === 'number'
+        ? error.status
+        : Number(message.match(/\[(\d{3})[^\]]*\]/)?.[1]) || undefined;
+    const options = { cause: error };
+
+    if (status === 429 || message.includes('Quota exceeded') || message.includes('RESOURCE_EXHAUSTED')) {
+        const rateLimit = new RateLimitError(message, provider, model, status, options);
+        rateLimit.retryAfterMs = parseRetryAfter(error);
+        return rateLimit;
+    }
+    if (status === 401 || status === 403 || message.includes('API key')) {
+        return new AuthenticationError(message, provider, model, status, options);
+    }
+    if (status === 404) {
+        return new ModelNotFoundError(message, provider, model, status, options);
+    }
+    if (status !== undefined && status >= 500) {
+        return new ServerError(message, provider, model, status, options);
+    }
+    // OpenAI reports its moderation system rejecting a prompt as a 400 with this code
+    if (error?.code === 'moderation_blocked' || error?.error?.code === 'moderation_blocked' || /rejected by the safety system/i.test(message)) {
+        const block: SafetyBlock = { stage: 'prompt', reason: 'moderation_blocked', categories: [] };
+        return new SafetyBlockedError(message, provider, model, block, status, options);
+    }
+    if (status === 400) {
+        return new InvalidRequestError(message, provider, model, status, options);
+    }
+    if (
+        error?.name === 'APIConnectionError'
+        || error?.name === 'APIConnectionTimeoutError'
+        || message.includes('fetch failed')
+        || message.includes('Error fetching from')
+        || ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN'].includes(error?.code ?? error?.cause?.code)
+    ) {
+        return new NetworkError(message, provider, model, status, options);
+    }
+
+    return new ProviderError(message, provider, model, status, options);
+}
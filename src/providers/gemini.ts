@@ -0,0 +1,116 @@
+import { GenerationConfig, GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { GeneratedVariant, ImageOptions, ImageProvider, InlineImage } from './image-provider.js';
+import { SafetyBlockedError, toProviderError } from './errors.js';
+import { withRetry } from './retry.js';
+
+const VARIANT_INSTRUCTION = 'Create a variation of the attached image. Keep the subject and composition recognisable, but vary the details.';
+
+// Finish reasons meaning the output was withheld rather than simply empty; image models add IMAGE_* variants
+const BLOCKING_FINISH_REASONS = new Set([
+    'SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION',
+    'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION'
+]);
+
+export class GeminiImageProvider implements ImageProvider {
+    readonly name = 'gemini' as const;
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(apiKey: string, readonly model: string) {
+        this.genAI = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generate(prompt: string, count: number, options: ImageOptions = {}): Promise<GeneratedVariant[]> {
+        return this.run([prompt], count, options);
+    }
+
+    async edit(prompt: string, references: InlineImage[], count: number, options: ImageOptions = {}): Promise<GeneratedVariant[]> {
+        return this.run([prompt, ...references.map(image => ({ inlineData: image }))], count, options);
+    }
+
+    async variants(image: InlineImage, count: number, prompt?: string, options: ImageOptions = {}): Promise<GeneratedVariant[]> {
+        const instruction = prompt ? `${VARIANT_INSTRUCTION}\n${prompt}` : VARIANT_INSTRUCTION;
+        return this.run([instruction, { inlineData: image }], count, options);
+    }
+
+    // Gemini returns a single image per call, so variants are separate parallel requests
+    private async run(inputs: any[], count: number, options: ImageOptions): Promise<GeneratedVariant[]> {
+        console.log(`[DEBUG] Calling Gemini API with model: ${this.model}`);
+        // imageConfig is newer than the SDK's GenerationConfig type, but is passed through as-is
+        const generationConfig = options.aspectRatio
+            ? { imageConfig: { aspectRatio: options.aspectRatio } } as GenerationConfig
+            : undefined;
+        const model = this.genAI.getGenerativeModel({ model: this.model, generationConfig });
+
+        // Each variant is retried on its own, and a variant that still fails doesn't discard the others
+        const settled = await Promise.allSettled(Array(count).fill(null).map(() =>
+            withRetry(() => this.generateOne(model, inputs, options), { signal: options.signal })
+        ));
+
+        const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failures.length === settled.length) throw failures[0].reason;
+
+        return settled.map(result => result.status === 'fulfilled'
+            ? result.value
+            : { image: null, text: null, tokens: 0, error: result.reason });
+    }
+
+    private async generateOne(model: GenerativeModel, inputs: any[], options: ImageOptions): Promise<GeneratedVariant> {
+        let response;
+        try {
+            response = (await model.generateContent(inputs, { signal: options.signal })).response;
+        } catch (error) {
+            throw toProviderError(error, this.name, this.model);
+        }
+
+        const blockReason = response.promptFeedback?.blockReason;
+        if (blockReason) {
+            throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`, this.name, this.model, {
+                stage: 'prompt',
+                reason: blockReason,
+                categories: getFlaggedCategories(response.promptFeedback?.safetyRatings)
+            });
+        }
+
+        const image = getInlineImage(response.candidates);
+        const candidate = response.candidates?.[0];
+        if (!image && candidate?.finishReason && BLOCKING_FINISH_REASONS.has(candidate.finishReason)) {
+            throw new SafetyBlockedError(`Output blocked: ${candidate.finishReason}`, this.name, this.model, {
+                stage: 'output',
+                reason: candidate.finishReason,
+                categories: getFlaggedCategories(candidate.safetyRatings)
+            });
+        }
+
+        let text: string | null = null;
+        try {
+            text = response.text() || null;
+        } catch (e) {
+            // Ignore text error
+        }
+
+        return { 
+            image, 
+            text, 
+            tokens: response.usageMetadata?.totalTokenCount ?? 0 
+        };
+    }
+}
+
+/** Harm categories rated MEDIUM or HIGH (or explicitly blocked), as short names like "dangerous content" */
+function getFlaggedCategories(ratings: { category: string; probability: string; blocked?: boolean }[] | undefined): string[] {
+    return (ratings ?? [])
+        .filter(rating => rating.blocked || rating.probability === 'MEDIUM' || rating.probability === 'HIGH')
+        .map(rating => rating.category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase());
+}
+
+// Helper function to get inline image data
+function getInlineImage(candidates: any[] | undefined): InlineImage | null {
+    if (!candidates || candidates.length === 0) return null;
+    const parts = candidates[0].content?.parts ?? [];
+    for (const part of parts) {
+        if (part.inlineData && part.inlineData.data) {
+            return { data: part.inlineData.data, mimeType: part.inlineData.mimeType };
+        }
+    }
+    return null;
+}
@@ -0,0 +1,45 @@
+// Common interface for image generation backends
+
+export type ProviderName = 'gemini' | 'openai';
+
+export const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'] as const;
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+
+export interface ImageOptions {
+    aspectRatio?: AspectRatio;
+    /** Aborts in-flight requests when the job is cancelled */
+    signal?: AbortSignal;
+}
+
+export interface InlineImage {
+    /** Base64 encoded image bytes */
+    data: string;
+    mimeType: string;
+}
+
+export interface GeneratedVariant {
+    image: InlineImage | null;
+    text: string | null;
+    /** Tokens billed for this variant, when the provider reports usage */
+    tokens: number;
+    /** Set when this variant failed after retries while others succeeded */
+    error?: Error;
+}
+
+/**
+ * Implementations retry transient failures themselves and throw a ProviderError
+ * subclass (see ./errors.ts) only when no variant could be produced.
+ */
+export interface ImageProvider {
+    readonly name: ProviderName;
+    readonly model: string;
+
+    /** Generate `count` images from a text prompt alone. */
+    generate(prompt: string, count: number, options?: ImageOptions): Promise<GeneratedVariant[]>;
+
+    /** Generate `count` images from a prompt plus one or more reference images. */
+    edit(prompt: string, references: InlineImage[], count: number, options?: ImageOptions): Promise<GeneratedVariant[]>;
+
+    /** Produce `count` variations of a single image, optionally steered by a prompt. */
+    variants(image: InlineImage, count: number, prompt?: string, options?: ImageOptions): Promise<GeneratedVariant[]>;
+}
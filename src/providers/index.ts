@@ -0,0 +1,102 @@
+import { createStore } from '../storage/index.js';
+import { GeminiImageProvider } from './gemini.js';
+import { ImageProvider, ProviderName } from './image-provider.js';
+import { OpenAIImageProvider } from './openai.js';
+import { NoProviderError, ProviderError } from './errors.js';
+
+export type { AspectRatio, GeneratedVariant, ImageOptions, ImageProvider, InlineImage, ProviderName } from './image-provider.js';
+export { ASPECT_RATIOS } from './image-provider.js';
+export * from './errors.js';
+
+export const PROVIDER_NAMES: readonly ProviderName[] = ['gemini', 'openai'];
+
+// Model names
+export const GEMINI_IMAGE_MODEL = "models/gemini-3-pro-image-preview";
+export const OPENAI_IMAGE_MODEL = "gpt-image-1";
+
+const providers = new Map<ProviderName, ImageProvider>();
+
+// Per-guild provider preference: guildId -> provider name
+const guildProviders = createStore<ProviderName>('guild-providers');
+
+export function isProviderName(value: string): value is ProviderName {
+    return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/** Returns the provider if its API key is configured, creating it on first use. */
+export function getImageProvider(name: ProviderName): ImageProvider | null {
+    const existing = providers.get(name);
+    if (existing) return existing;
+
+    let provider: ImageProvider | null = null;
+    if (name === 'gemini' && process.env.GOOGLE_API_KEY) {
+        provider = new GeminiImageProvider(process.env.GOOGLE_API_KEY, GEMINI_IMAGE_MODEL);
+    } else if (name === 'openai' && process.env.OPENAI_API_KEY) {
+        provider = new OpenAIImageProvider(process.env.OPENAI_API_KEY, process.env.OPENAI_IMAGE_MODEL || OPENAI_IMAGE_MODEL);
+    }
+
+    if (provider) providers.set(name, provider);
+    return provider;
+}
+
+export function getAvailableProviders(): ProviderName[] {
+    return PROVIDER_NAMES.filter(name => getImageProvider(name) !== null);
+}
+
+function getDefaultProviderName(): ProviderName {
+    const configured = process.env.IMAGE_PROVIDER?.toLowerCase();
+    return configured && isProviderName(configured) ? configured : 'gemini';
+}
+
+export async function getGuildProvider(guildId: string | null): Promise<ProviderName> {
+    if (guildId) {
+        const stored = await guildProviders.get(guildId);
+        if (stored) return stored;
+    }
+    return getDefaultProviderName();
+}
+
+export async function setGuildProvider(guildId: string, name: ProviderName): Promise<void> {
+    await guildProviders.set(guildId, name);
+}
+
+/**
+ * Order in which providers are tried for a request: the requested provider
+ * (or the guild's preference), followed by every other configured provider as fallback.
+ */
+export async function resolveProviderChain(guildId: string | null, requested?: ProviderName): Promise<ImageProvider[]> {
+    const preferred = requested ?? await getGuildProvider(guildId);
+    const order = [preferred, ...PROVIDER_NAMES.filter(name => name !== preferred)];
+    const chain = order.map(getImageProvider).filter((p): p is ImageProvider => p !== null);
+
+    if (chain.length === 0) {
+        throw new NoProviderError('No image provider is configured. Set GOOGLE_API_KEY or OPENAI_API_KEY.');
+    }
+    return chain;
+}
+
+/**
+ * Run `task` against each provider in turn, moving on only when a provider still
+ * fails with a transient error (rate limit, 5xx, network) after its own retries.
+ * Any other error is rethrown immediately.
+ */
+export async function runWithFallback<T>(
+    chain: ImageProvider[],
+    task: (provider: ImageProvider) => Promise<T>,
+    onAttempt?: (provider: ImageProvider) => void
+): Promise<T> {
+    let lastError: unknown;
+
+    for (const provider of chain) {
+        onAttempt?.(provider);
+        try {
+            return await task(provider);
+        } catch (error) {
+            if (!(error instanceof ProviderError && error.retryable)) throw error;
+            console.warn(`[DEBUG] Provider ${provider.name} failed with ${error.name}, trying next provider.`);
+            lastError = error;
+        }
+    }
+
+    throw lastError;
+}
@@ -0,0 +1,87 @@
+import OpenAI, { toFile } from 'openai';
+import { AspectRatio, GeneratedVariant, ImageOptions, ImageProvider, InlineImage } from './image-provider.js';
+import { toProviderError } from './errors.js';
+import { withRetry } from './retry.js';
+
+const VARIANT_INSTRUCTION = 'Create a variation of this image. Keep the subject and composition recognisable, but vary the details.';
+
+export class OpenAIImageProvider implements ImageProvider {
+    readonly name = 'openai' as const;
+    private readonly client: OpenAI;
+
+    constructor(apiKey: string, readonly model: string) {
+        // Retries are handled by withRetry, consistently with the other providers
+        this.client = new OpenAI({ apiKey, maxRetries: 0 });
+    }
+
+    async generate(prompt: string, count: number, options: ImageOptions = {}): Promise<GeneratedVariant[]> {
+        console.log(`[DEBUG] Calling OpenAI Images API with model: ${this.model}`);
+        const response = await this.request(() => this.client.images.generate({
+            model: this.model,
+            prompt,
+            n: count,
+            size: toSize(options.aspectRatio)
+        }, { signal: options.signal }), options);
+        return toVariants(response);
+    }
+
+    async edit(prompt: string, references: InlineImage[], count: number, options: ImageOptions = {}): Promise<GeneratedVariant[]> {
+        if (references.length === 0) {
+            return this.generate(prompt, count, options);
+        }
+
+        console.log(`[DEBUG] Calling OpenAI Images edit API with model: ${this.model} and ${references.length} references`);
+        const files = await Promise.all(references.map((image, i) => toUpload(image, i)));
+        const response = await this.request(() => this.client.images.edit({
+            model: this.model,
+            image: files,
+            prompt,
+            n: count,
+            size: toSize(options.aspectRatio)
+        }, { signal: options.signal }), options);
+        return toVariants(response);
+    }
+
+    async variants(image: InlineImage, count: number, prompt?: string, options: ImageOptions = {}): Promise<GeneratedVariant[]> {
+        // gpt-image models have no dedicated variations endpoint, so steer an edit instead
+        const instruction = prompt ? `${VARIANT_INSTRUCTION}\n${prompt}` : VARIANT_INSTRUCTION;
+        return this.edit(instruction, [image], count, options);
+    }
+
+    // All variants come from a single request, so a retry covers the whole batch
+    private request<T>(call: () => Promise<T>, options: ImageOptions): Promise<T> {
+        return withRetry(async () => {
+            try {
+                return await call();
+            } catch (error) {
+                throw toProviderError(error, this.name, this.model);
+            }
+        }, { signal: options.signal });
+    }
+}
+
+// gpt-image models only support three sizes, so map to the closest orientation
+function toSize(aspectRatio: AspectRatio | undefined): '1024x1024' | '1536x1024' | '1024x1536' | 'auto' {
+    if (!aspectRatio) return 'auto';
+    const [width, height] = aspectRatio.split(':').map(Number);
+    if (width > height) return '1536x1024';
+    if (height > width) return '1024x1536';
+    return '1024x1024';
+}
+
+function toUpload(image: InlineImage, index: number) {
+    const extension = image.mimeType.split('/')[1] ?? 'png';
+    return toFile(Buffer.from(image.data, 'base64'), `reference_${index + 1}.${extension}`, { type: image.mimeType });
+}
+
+function toVariants(response: OpenAI.Images.ImagesResponse): GeneratedVariant[] {
+    const data = response.data ?? [];
+    // Usage is reported for the whole request, so split it evenly across the images
+    const tokensPerImage = data.length > 0 ? Math.ceil((response.usage?.total_tokens ?? 0) / data.length) : 0;
+
+    return data.map(item => ({
+        image: item.b64_json ? { data: item.b64_json, mimeType: 'image/png' } : null,
+        text: item.revised_prompt ?? null,
+        tokens: tokensPerImage
+    }));
+}
@@ -0,0 +1,59 @@
+// Retry transient provider failures with jittered exponential backoff
+
+import { ImageGenerationError, RateLimitError } from './errors.js';
+
+export interface RetryOptions {
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 20_000;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Run `task`, retrying errors marked `retryable` (rate limits, 5xx, network failures).
+ * Delays use "full jitter": a random value up to base * 2^attempt, capped at maxDelayMs,
+ * but never shorter than a Retry-After the provider asked for.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const {
+        maxRetries = DEFAULT_MAX_RETRIES,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        maxDelayMs = DEFAULT_MAX_DELAY_MS,
+        signal
+    } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            const retryable = error instanceof ImageGenerationError && error.retryable;
+            if (!retryable || attempt >= maxRetries || signal?.aborted) throw error;
+
+            const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const requested = error instanceof RateLimitError ? error.retryAfterMs ?? 0 : 0;
+            const delay = Math.min(Math.max(backoff, requested), maxDelayMs);
+
+            console.warn(`[DEBUG] ${error.name} on attempt ${attempt + 1}/${maxRetries + 1}, retrying in ${Math.round(delay)}ms`);
+            await sleep(delay, signal);
+        }
+    }
+}
@@ -0,0 +1,319 @@
+// Generation quotas: rolling daily / monthly budgets per user, per role and per guild
+
+import { randomUUID } from 'crypto';
+import { createStore } from './storage/index.js';
+
+export type QuotaWindow = 'daily' | 'monthly';
+export type QuotaScope = 'user' | 'guild';
+
+export interface Usage {
+    images: number;
+    tokens: number;
+}
+
+/** A missing field means "unlimited" */
+export type Limit = Partial<Usage>;
+export type WindowLimits = Partial<Record<QuotaWindow, Limit>>;
+
+/** A configured limit: a missing field keeps the inherited limit, null removes it */
+export type LimitSetting = { [K in keyof Usage]?: number | null };
+export type WindowLimitSettings = Partial<Record<QuotaWindow, LimitSetting>>;
+
+export interface GuildQuotaConfig {
+    /** Default budget for every member, over the environment defaults */
+    user?: WindowLimitSettings;
+    /** Budgets for members with a role, over the user budget; the most generous matching role wins */
+    roles?: Record<string, WindowLimitSettings>;
+    /** Budget shared by the whole guild, over the environment defaults */
+    guild?: WindowLimitSettings;
+    /** Users who bypass every quota */
+    exemptUsers?: string[];
+}
+
+export interface QuotaSubject {
+    guildId: string | null;
+    userId: string;
+    roleIds: string[];
+}
+
+export interface QuotaCheck {
+    allowed: boolean;
+    reason?: string;
+}
+
+/** Usage held against every budget of a subject until the work finishes */
+export interface QuotaReservation {
+    id: string;
+    subject: QuotaSubject;
+}
+
+export interface UsageReportLine {
+    scope: QuotaScope;
+    window: QuotaWindow;
+    used: Usage;
+    limit: Limit;
+}
+
+interface UsageEvent extends Usage {
+    at: number;
+    /** Set while the event is a reservation that hasn't been settled yet */
+    reservation?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WINDOW_MS: Record<QuotaWindow, number> = {
+    daily: DAY_MS,
+    monthly: 30 * DAY_MS
+};
+
+export const QUOTA_WINDOWS: QuotaWindow[] = ['daily', 'monthly'];
+
+// Usage ledger: subject key -> usage events within the longest window
+const ledger = createStore<UsageEvent[]>('usage-ledger', { ttlMs: WINDOW_MS.monthly });
+
+// Per-guild quota configuration: guildId -> config
+const guildConfigs = createStore<GuildQuotaConfig>('quota-config');
+
+// Ledger updates read, modify and write whole event lists, so they run one at a time.
+// Reservations also check under the lock, so concurrent requests see each other's holds.
+let ledgerLock: Promise<unknown> = Promise.resolve();
+
+function withLedgerLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = ledgerLock.then(task);
+    ledgerLock = result.catch(() => {});
+    return result;
+}
+
+function envLimit(name: string, fallback?: number): number | undefined {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    // Negative values disable the limit
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+// Defaults apply until a guild admin configures its own limits with /usage set-limit
+function getDefaultLimits(scope: QuotaScope): WindowLimits {
+    const prefix = `QUOTA_${scope.toUpperCase()}`;
+    const defaults = scope === 'user'
+        ? { daily: 30, monthly: 300 }
+        : { daily: 300, monthly: 3000 };
+
+    return {
+        daily: {
+            images: envLimit(`${prefix}_DAILY_IMAGES`, defaults.daily),
+            tokens: envLimit(`${prefix}_DAILY_TOKENS`)
+        },
+        monthly: {
+            images: envLimit(`${prefix}_MONTHLY_IMAGES`, defaults.monthly),
+            tokens: envLimit(`${prefix}_MONTHLY_TOKENS`)
+        }
+    };
+}
+
+// DMs have no guild budget
+function scopesFor(subject: QuotaSubject): QuotaScope[] {
+    return subject.guildId ? ['user', 'guild'] : ['user'];
+}
+
+function subjectKey(scope: QuotaScope, subject: QuotaSubject): string {
+    const guildKey = subject.guildId ?? 'dm';
+    return scope === 'guild' ? `guild:${guildKey}` : `user:${guildKey}:${subject.userId}`;
+}
+
+export async function getGuildQuotaConfig(guildId: string): Promise<GuildQuotaConfig> {
+    return (await guildConfigs.get(guildId)) ?? {};
+}
+
+export async function updateGuildQuotaConfig(
+    guildId: string, 
+    update: (config: GuildQuotaConfig) => void
+): Promise<GuildQuotaConfig> {
+    const config = await getGuildQuotaConfig(guildId);
+    update(config);
+    await guildConfigs.set(guildId, config);
+    return config;
+}
+
+/** The higher of two limits, where undefined (unlimited) beats any number. */
+function mostGenerous(a: number | undefined, b: number | undefined): number | undefined {
+    if (a === undefined || b === undefined) return undefined;
+    return Math.max(a, b);
+}
+
+/** `inherited` with the fields `setting` configures replaced */
+function applySetting(inherited: Limit, setting: LimitSetting | undefined): Limit {
+    const limit = { ...inherited };
+    for (const field of ['images', 'tokens'] as const) {
+        const value = setting?.[field];
+        if (value === null) delete limit[field];
+        else if (value !== undefined) limit[field] = value;
+    }
+    return limit;
+}
+
+async function resolveLimits(scope: QuotaScope, subject: QuotaSubject): Promise<WindowLimits> {
+    const config = subject.guildId ? await getGuildQuotaConfig(subject.guildId) : {};
+    const defaults = getDefaultLimits(scope);
+    // Merged field by field, so a guild that configured only daily images keeps every other default
+    const base: WindowLimits = {};
+    for (const window of QUOTA_WINDOWS) {
+        base[window] = applySetting(defaults[window] ?? {}, config[scope]?.[window]);
+    }
+    if (scope === 'guild') return base;
+
+    const roleLimits = subject.roleIds
+        .map(roleId => config.roles?.[roleId])
+        .filter((limits): limits is WindowLimitSettings => limits !== undefined);
+    if (roleLimits.length === 0) return base;
+
+    const resolved: WindowLimits = {};
+    for (const window of QUOTA_WINDOWS) {
+        // A field the role doesn't set stays at the user budget's
+        const windows = roleLimits.map(limits => applySetting(base[window] ?? {}, limits[window]));
+        resolved[window] = {
+            images: windows.reduce<number | undefined>((acc, limit) => mostGenerous(acc, limit.images), 0),
+            tokens: windows.reduce<number | undefined>((acc, limit) => mostGenerous(acc, limit.tokens), 0)
+        };
+    }
+    return resolved;
+}
+
+async function getEvents(key: string): Promise<UsageEvent[]> {
+    const cutoff = Date.now() - WINDOW_MS.monthly;
+    return ((await ledger.get(key)) ?? []).filter(event => event.at > cutoff);
+}
+
+function sumWindow(events: UsageEvent[], window: QuotaWindow, now: number = Date.now()): Usage {
+    const cutoff = now - WINDOW_MS[window];
+    return events
+        .filter(event => event.at > cutoff)
+        .reduce((total, event) => ({
+            images: total.images + event.images,
+            tokens: total.tokens + event.tokens
+        }), { images: 0, tokens: 0 });
+}
+
+/** When the oldest usage inside the window rolls off, freeing up budget again */
+function nextRelease(events: UsageEvent[], window: QuotaWindow, now: number = Date.now()): number | null {
+    const inWindow = events.filter(event => event.at > now - WINDOW_MS[window]);
+    if (inWindow.length === 0) return null;
+    return Math.min(...inWindow.map(event => event.at)) + WINDOW_MS[window];
+}
+
+async function isExempt(subject: QuotaSubject): Promise<boolean> {
+    if (!subject.guildId) return false;
+    const config = await getGuildQuotaConfig(subject.guildId);
+    return config.exemptUsers?.includes(subject.userId) ?? false;
+}
+
+/**
+ * Check whether `requested` more usage fits in every budget that applies to the subject.
+ * Token usage is only known afterwards, so tokens are checked against what has already been used.
+ */
+export async function checkQuota(subject: QuotaSubject, requested: Usage): Promise<QuotaCheck> {
+    if (await isExempt(subject)) return { allowed: true };
+
+    for (const scope of scopesFor(subject)) {
+        const limits = await resolveLimits(scope, subject);
+        const events = await getEvents(subjectKey(scope, subject));
+
+        for (const window of QUOTA_WINDOWS) {
+            const limit = limits[window] ?? {};
+            const used = sumWindow(events, window);
+
+            const overImages = limit.images !== undefined && used.images + requested.images > limit.images;
+            const overTokens = limit.tokens !== undefined && used.tokens + requested.tokens > limit.tokens;
+            if (!overImages && !overTokens) continue;
+
+            const owner = scope === 'user' ? 'Your' : "This server's";
+            const detail = overImages
+                ? `${used.images}/${limit.images} images used, ${requested.images} requested`
+                : `${used.tokens}/${limit.tokens} tokens used`;
+            const release = nextRelease(events, window);
+            const retry = release ? ` More budget frees up <t:${Math.ceil(release / 1000)}:R>.` : '';
+
+            return {
+                allowed: false,
+                reason: `${owner} ${window} quota is exhausted (${detail}).${retry}`
+            };
+        }
+    }
+
+    return { allowed: true };
+}
+
+async function appendEvent(subject: QuotaSubject, event: UsageEvent): Promise<void> {
+    for (const scope of scopesFor(subject)) {
+        const key = subjectKey(scope, subject);
+        const events = await getEvents(key);
+        events.push(event);
+        await ledger.set(key, events);
+    }
+}
+
+export async function recordUsage(subject: QuotaSubject, usage: Usage): Promise<void> {
+    if (usage.images === 0 && usage.tokens === 0) return;
+    await withLedgerLock(() => appendEvent(subject, { at: Date.now(), ...usage }));
+}
+
+/**
+ * Check `requested` like checkQuota and, if it fits, hold it in the ledger straight away so
+ * requests queued behind this one are checked against it. Settle the reservation once the
+ * actual usage is known.
+ */
+export async function reserveQuota(subject: QuotaSubject, requested: Usage): Promise<QuotaCheck & { reservation?: QuotaReservation }> {
+    return withLedgerLock(async () => {
+        const check = await checkQuota(subject, requested);
+        if (!check.allowed) return check;
+
+        const reservation: QuotaReservation = { id: randomUUID(), subject };
+        await appendEvent(subject, { at: Date.now(), ...requested, reservation: reservation.id });
+        return { ...check, reservation };
+    });
+}
+
+/** Replace a reservation with the usage that actually happened; zero usage releases it entirely */
+export async function settleReservation(reservation: QuotaReservation, actual: Usage): Promise<void> {
+    await withLedgerLock(async () => {
+        for (const scope of scopesFor(reservation.subject)) {
+            const key = subjectKey(scope, reservation.subject);
+            const events = (await getEvents(key)).flatMap(event => {
+                if (event.reservation !== reservation.id) return [event];
+                if (actual.images === 0 && actual.tokens === 0) return [];
+                return [{ at: event.at, ...actual }];
+            });
+            await ledger.set(key, events);
+        }
+    });
+}
+
+export async function getUsageReport(subject: QuotaSubject): Promise<UsageReportLine[]> {
+    const exempt = await isExempt(subject);
+    const lines: UsageReportLine[] = [];
+
+    for (const scope of scopesFor(subject)) {
+        const limits = await resolveLimits(scope, subject);
+        const events = await getEvents(subjectKey(scope, subject));
+
+        for (const window of QUOTA_WINDOWS) {
+            lines.push({
+                scope,
+                window,
+                used: sumWindow(events, window),
+                limit: scope === 'user' && exempt ? {} : limits[window] ?? {}
+            });
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Clear the subject's own usage. The guild budget is left alone: its ledger isn't split by
+ * user, so their share of it keeps counting until it rolls off.
+ */
+export async function resetUsage(subject: QuotaSubject): Promise<void> {
+    await withLedgerLock(() => ledger.delete(subjectKey('user', subject)));
+}
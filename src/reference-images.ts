@@ -0,0 +1,215 @@
+// Shared ingestion of user-supplied images: finding them in a message, downloading with limits
+// and normalising them into something every provider accepts
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import sharp from 'sharp';
+import { Attachment, Message, StickerFormatType } from 'discord.js';
+import { InlineImage } from './providers/index.js';
+
+export type ImageOrigin = 'attachment' | 'embed' | 'sticker' | 'emoji' | 'link';
+
+export interface ImageSource {
+    url: string;
+    /** File name or short label, used in skip notes */
+    name: string;
+    origin: ImageOrigin;
+    /** Size reported by Discord, when known, so oversized files are skipped without downloading */
+    size?: number;
+}
+
+export interface IngestResult {
+    images: InlineImage[];
+    /** Human readable reasons for sources that were left out */
+    skipped: string[];
+}
+
+export interface IngestOptions {
+    maxCount?: number;
+    maxBytes?: number;
+}
+
+export const MAX_REFERENCE_IMAGES = Number(process.env.REFERENCE_MAX_COUNT ?? 4);
+const MAX_DOWNLOAD_BYTES = Number(process.env.REFERENCE_MAX_BYTES ?? 20 * 1024 * 1024);
+const DOWNLOAD_TIMEOUT_MS = Number(process.env.REFERENCE_DOWNLOAD_TIMEOUT_MS ?? 15_000);
+// Longest side after downscaling; providers resize anything bigger anyway
+const MAX_DIMENSION = Number(process.env.REFERENCE_MAX_DIMENSION ?? 2048);
+// PNG and JPEG under this size are passed through untouched
+const MAX_PASSTHROUGH_BYTES = 4 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|heic|heif|avif|bmp|tiff?)$/i;
+const IMAGE_URL_PATTERN = /https:\/\/[^\s<>]+?\.(?:png|jpe?g|gif|webp|heic|heif|avif)(?:\?[^\s<>]*)?(?=[\s>)]|$)/gi;
+const CUSTOM_EMOJI_PATTERN = /<(a?):(\w+):(\d+)>/g;
+
+function isImageAttachment(attachment: Attachment): boolean {
+    return attachment.contentType?.startsWith('image/') || IMAGE_EXTENSIONS.test(attachment.name);
+}
+
+export function attachmentSources(attachments: Iterable<Attachment>): ImageSource[] {
+    return Array.from(attachments)
+        .filter(isImageAttachment)
+        .map(attachment => ({ url: attachment.url, name: attachment.name, origin: 'attachment' as const, size: attachment.size }));
+}
+
+/**
+ * Every image a message carries: attachments, embed images (e.g. link previews), stickers,
+ * custom emoji and direct image links in the text. Duplicate URLs are listed once.
+ */
+export function collectImageSources(message: Message): ImageSource[] {
+    const sources: ImageSource[] = [...attachmentSources(message.attachments.values())];
+
+    for (const embed of message.embeds) {
+        const url = embed.image?.url ?? embed.thumbnail?.url;
+        if (url) sources.push({ url, name: embed.title ?? 'embedded image', origin: 'embed' });
+    }
+
+    for (const sticker of message.stickers.values()) {
+        // Lottie stickers are vector animations, not images
+        if (sticker.format === StickerFormatType.Lottie) continue;
+        sources.push({ url: sticker.url, name: `sticker ${sticker.name}`, origin: 'sticker' });
+    }
+
+    for (const [, animated, name, id] of message.content.matchAll(CUSTOM_EMOJI_PATTERN)) {
+        sources.push({ url: `https://cdn.discordapp.com/emojis/${id}.${animated ? 'gif' : 'png'}`, name: `:${name}:`, origin: 'emoji' });
+    }
+
+    for (const [url] of message.content.matchAll(IMAGE_URL_PATTERN)) {
+        sources.push({ url, name: new URL(url).pathname.split('/').pop() || url, origin: 'link' });
+    }
+
+    const seen = new Set<string>();
+    return sources.filter(source => {
+        // Discord CDN links differ only in their signature parameters between attachment and embed
+        const key = source.url.split('?')[0];
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// Loopback, private, link-local, shared, benchmarking, multicast and reserved ranges. BlockList
+// also matches IPv4 rules against IPv4-mapped IPv6 addresses, dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1).
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+BLOCKED_ADDRESSES.addAddress('255.255.255.255', 'ipv4');
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+    return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** Links come from user text, so only public HTTPS hosts are fetched */
+async function assertPublicUrl(url: string): Promise<void> {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:') throw new Error('only https links are supported');
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        throw new Error('the host is not reachable');
+    }
+}
+
+/** Download `url`, giving up after the timeout or once more than `maxBytes` have arrived */
+export async function downloadWithLimits(url: string, maxBytes: number = MAX_DOWNLOAD_BYTES): Promise<Buffer> {
+    const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+
+    // Redirects are followed by hand so every hop gets the same host check
+    let response: Response | null = null;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await assertPublicUrl(url);
+        response = await fetch(url, { signal, redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) break;
+        url = new URL(location, url).toString();
+        response = null;
+    }
+
+    if (!response) throw new Error('too many redirects');
+    if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > maxBytes) throw new Error(`larger than ${formatMegabytes(maxBytes)}`);
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of response.body) {
+        received += chunk.length;
+        if (received > maxBytes) throw new Error(`larger than ${formatMegabytes(maxBytes)}`);
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+function formatMegabytes(bytes: number): string {
+    return `${Math.round(bytes / 1024 / 1024)} MB`;
+}
+
+/**
+ * Check that `buffer` really is an image and convert it to something every provider takes:
+ * small PNG/JPEG pass through, anything else (GIF, WebP, HEIC, oversized images) becomes a
+ * PNG no larger than MAX_DIMENSION on its longest side. Animated images keep their first frame.
+ */
+export async function normalizeImage(buffer: Buffer): Promise<InlineImage> {
+    let metadata: sharp.Metadata;
+    try {
+        metadata = await sharp(buffer).metadata();
+    } catch {
+        throw new Error('not a supported image');
+    }
+
+    const { format, width = 0, height = 0 } = metadata;
+    const fits = Math.max(width, height) <= MAX_DIMENSION && buffer.length <= MAX_PASSTHROUGH_BYTES;
+    if (fits && (format === 'png' || format === 'jpeg')) {
+        return { data: buffer.toString('base64'), mimeType: `image/${format}` };
+    }
+
+    const converted = await sharp(buffer, { pages: 1 })
+        .rotate()
+        .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer();
+    return { data: converted.toString('base64'), mimeType: 'image/png' };
+}
+
+/**
+ * Download and normalise up to `maxCount` images. Sources that are too large, time out or
+ * aren't images are skipped with a reason rather than failing the whole request.
+ */
+export async function ingestReferenceImages(sources: ImageSource[], options: IngestOptions = {}): Promise<IngestResult> {
+    const { maxCount = MAX_REFERENCE_IMAGES, maxBytes = MAX_DOWNLOAD_BYTES } = options;
+    const skipped: string[] = [];
+
+    const accepted = sources.filter(source => {
+        if (source.size !== undefined && source.size > maxBytes) {
+            skipped.push(`\`${source.name}\` is larger than ${formatMegabytes(maxBytes)}`);
+            return false;
+        }
+        return true;
+    });
+    for (const source of accepted.splice(maxCount)) {
+        skipped.push(`\`${source.name}\` is over the limit of ${maxCount} images`);
+    }
+
+    const results = await Promise.all(accepted.map(async source => {
+        try {
+            console.log(`[DEBUG] Fetching ${source.origin} image: ${source.url}`);
+            return await normalizeImage(await downloadWithLimits(source.url, maxBytes));
+        } catch (err: any) {
+            const reason = err?.name === 'TimeoutError' ? 'timed out' : err?.message ?? 'failed';
+            console.error(`Failed to ingest ${source.origin} image ${source.url}: ${reason}`);
+            skipped.push(`\`${source.name}\` couldn't be used (${reason})`);
+            return null;
+        }
+    }));
+
+    return { images: results.filter(image => image !== null), skipped };
+}
@@ -0,0 +1,222 @@
+import { promises as fs, appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync } from 'fs';
+import path from 'path';
+import { MemoryStore, StoredEntry } from './memory-store.js';
+import { StoreOptions } from './store.js';
+
+const FLUSH_DELAY_MS = 1000;
+// The log is rewritten once it holds this much more than the live entries
+const COMPACT_MIN_BYTES = 1024 * 1024;
+const COMPACT_RATIO = 2;
+
+type LogRecord<T> =
+    | { op: 'set', key: string, value: T, expiresAt: number | null }
+    | { op: 'delete', key: string };
+
+/** Whole-file format written before stores became logs; still read once to migrate */
+interface LegacyContents<T> {
+    version: 1;
+    entries: [string, Omit<StoredEntry<T>, 'size'>][];
+}
+
+/**
+ * Append-only log backed store. Entries live in memory; shortly after a change only the keys
+ * that changed are appended to the log, so a write costs the size of those entries rather than
+ * the whole store. Once the log is mostly superseded records it is compacted in the background.
+ * Replaying the log on start restores the entries, in last-written order for LRU eviction.
+ */
+export class FileStore<T> extends MemoryStore<T> {
+    private flushTimer: NodeJS.Timeout | null = null;
+    private writing: Promise<void> = Promise.resolve();
+    // Keys changed since the last flush; their current state is written, not each change
+    private readonly dirty = new Set<string>();
+    private logBytes = 0;
+    // Set while a compaction is writing its replacement log
+    private compaction: { cancelled: boolean } | null = null;
+
+    constructor(private readonly filePath: string, options: StoreOptions = {}) {
+        super(options);
+        this.load();
+    }
+
+    async set(key: string, value: T, ttlMs?: number): Promise<void> {
+        await super.set(key, value, ttlMs);
+        this.dirty.add(key);
+    }
+
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        this.writing = this.writing.then(() => this.write()).catch(err => {
+            console.error(`Failed to persist store ${this.filePath}:`, err);
+        });
+        await this.writing;
+    }
+
+    /** Synchronous append used during shutdown, when pending timers will never fire. */
+    flushSync(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        const pending = this.takePending();
+        if (!pending) return;
+        // The replacement log doesn't have these records, so it must not replace the one that will
+        if (this.compaction) this.compaction.cancelled = true;
+        mkdirSync(path.dirname(this.filePath), { recursive: true });
+        appendFileSync(this.filePath, pending);
+    }
+
+    protected changed(): void {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, FLUSH_DELAY_MS);
+        this.flushTimer.unref();
+    }
+
+    protected remove(key: string): boolean {
+        const existed = super.remove(key);
+        if (existed) this.dirty.add(key);
+        return existed;
+    }
+
+    private load(): void {
+        if (!existsSync(this.filePath) && this.migrateLegacyFile()) return;
+
+        let raw: string;
+        try {
+            raw = readFileSync(this.filePath, 'utf8');
+        } catch (err: any) {
+            if (err.code !== 'ENOENT') {
+                console.error(`Failed to read store ${this.filePath}:`, err);
+            }
+            return;
+        }
+
+        let corrupt = 0;
+        for (const line of raw.split('\n')) {
+            if (!line.trim()) continue;
+            let record: LogRecord<T>;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                // Usually a line cut short by a crash mid-append; later lines are still good
+                corrupt++;
+                continue;
+            }
+            super.remove(record.key);
+            if (record.op === 'set') this.insert(record.key, record.value, record.expiresAt);
+        }
+        this.logBytes = Buffer.byteLength(raw);
+        // Entries over the caps are dropped now and their deletion logged with the next flush
+        this.evict();
+        if (this.dirty.size > 0) this.changed();
+
+        if (corrupt > 0) console.error(`Skipped ${corrupt} corrupt record(s) in store ${this.filePath}`);
+        console.log(`[DEBUG] Loaded ${this.items.size} entries from ${this.filePath}`);
+    }
+
+    /** Read a store written in the old single-JSON format, and write it out as a log */
+    private migrateLegacyFile(): boolean {
+        const legacyPath = this.filePath.replace(/\.jsonl$/, '.json');
+        if (legacyPath === this.filePath || !existsSync(legacyPath)) return false;
+
+        try {
+            const contents = JSON.parse(readFileSync(legacyPath, 'utf8')) as LegacyContents<T>;
+            for (const [key, entry] of contents.entries ?? []) {
+                this.insert(key, entry.value, entry.expiresAt);
+            }
+        } catch (err) {
+            console.error(`Store file ${legacyPath} is corrupt, starting empty:`, err);
+            this.items.clear();
+            this.totalBytes = 0;
+            return true;
+        }
+        this.evict();
+        this.dirty.clear();
+
+        for (const key of this.items.keys()) this.dirty.add(key);
+        try {
+            this.flushSync();
+            unlinkSync(legacyPath);
+            console.log(`[DEBUG] Migrated ${this.items.size} entries from ${legacyPath}`);
+        } catch (err) {
+            console.error(`Failed to migrate store ${legacyPath}:`, err);
+        }
+        return true;
+    }
+
+    private insert(key: string, value: T, expiresAt: number | null): void {
+        const size = JSON.stringify(value)?.length ?? 0;
+        this.items.set(key, { value, expiresAt, size });
+        this.totalBytes += size;
+    }
+
+    private serializeEntry(key: string): string {
+        const entry = this.items.get(key);
+        const record: LogRecord<T> = entry
+            ? { op: 'set', key, value: entry.value, expiresAt: entry.expiresAt }
+            : { op: 'delete', key };
+        return JSON.stringify(record) + '\n';
+    }
+
+    /** Log lines for every key changed since the last call */
+    private takePending(): string {
+        this.pruneExpired();
+        const lines = Array.from(this.dirty, key => this.serializeEntry(key));
+        this.dirty.clear();
+        const pending = lines.join('');
+        this.logBytes += Buffer.byteLength(pending);
+        return pending;
+    }
+
+    private async write(): Promise<void> {
+        const pending = this.takePending();
+        if (pending) {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.appendFile(this.filePath, pending);
+        }
+
+        if (this.logBytes > Math.max(COMPACT_MIN_BYTES, this.totalBytes * COMPACT_RATIO)) {
+            await this.compact();
+        }
+    }
+
+    /**
+     * Rewrite the log with one record per live entry. Entries are written one at a time, so
+     * the event loop keeps running; anything changed meanwhile is dirty and appended afterwards.
+     * A `flushSync` in the meantime appends to the current log and cancels the rewrite.
+     */
+    private async compact(): Promise<void> {
+        const tmpPath = `${this.filePath}.tmp`;
+        const compaction = this.compaction = { cancelled: false };
+        try {
+            const file = await fs.open(tmpPath, 'w');
+            let written = 0;
+            try {
+                for (const key of Array.from(this.items.keys())) {
+                    if (compaction.cancelled) break;
+                    if (!this.items.has(key)) continue;
+                    const line = this.serializeEntry(key);
+                    await file.write(line);
+                    written += Buffer.byteLength(line);
+                }
+            } finally {
+                await file.close();
+            }
+
+            if (compaction.cancelled) {
+                await fs.rm(tmpPath, { force: true });
+                return;
+            }
+            // Synchronous, so no flushSync can append to the old log between the check and the rename
+            renameSync(tmpPath, this.filePath);
+            this.logBytes = written;
+        } finally {
+            this.compaction = null;
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import path from 'path';
+import { FileStore } from './file-store.js';
+import { MemoryStore } from './memory-store.js';
+import { Store, StoreBackend, StoreOptions } from './store.js';
+
+export type { Store, StoreBackend, StoreOptions } from './store.js';
+export { MemoryStore } from './memory-store.js';
+export { FileStore } from './file-store.js';
+
+const openStores: MemoryStore<unknown>[] = [];
+
+function getBackend(): StoreBackend {
+    const backend = (process.env.STORAGE_BACKEND ?? 'file').toLowerCase();
+    if (backend !== 'memory' && backend !== 'file') {
+        throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "memory" or "file".`);
+    }
+    return backend;
+}
+
+export function getStorageDir(): string {
+    return path.resolve(process.env.STORAGE_DIR ?? 'data');
+}
+
+/**
+ * Create a named store using the backend selected by STORAGE_BACKEND.
+ * File stores are append-only logs at `${STORAGE_DIR}/${name}.jsonl`.
+ */
+export function createStore<T>(name: string, options: StoreOptions = {}): Store<T> {
+    const store = getBackend() === 'file'
+        ? new FileStore<T>(path.join(getStorageDir(), `${name}.jsonl`), options)
+        : new MemoryStore<T>(options);
+
+    openStores.push(store as MemoryStore<unknown>);
+    return store;
+}
+
+/** Synchronously persist every open file store. Safe to call from exit handlers. */
+export function flushAllStoresSync(): void {
+    for (const store of openStores) {
+        if (store instanceof FileStore) {
+            try {
+                store.flushSync();
+            } catch (err) {
+                console.error('Failed to flush store on shutdown:', err);
+            }
+        }
+    }
+}
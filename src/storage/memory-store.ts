@@ -0,0 +1,115 @@
+import { Store, StoreOptions } from './store.js';
+
+export interface StoredEntry<T> {
+    value: T;
+    expiresAt: number | null;
+    size: number;
+}
+
+/**
+ * In-memory store with TTL expiry and size caps.
+ * Map insertion order doubles as the LRU order: reads move an entry to the end.
+ */
+export class MemoryStore<T> implements Store<T> {
+    protected readonly items = new Map<string, StoredEntry<T>>();
+    protected totalBytes = 0;
+
+    constructor(protected readonly options: StoreOptions = {}) {}
+
+    async get(key: string): Promise<T | undefined> {
+        const entry = this.items.get(key);
+        if (!entry) return undefined;
+
+        if (this.isExpired(entry)) {
+            this.remove(key);
+            this.changed();
+            return undefined;
+        }
+
+        // Refresh LRU position
+        this.items.delete(key);
+        this.items.set(key, entry);
+        return entry.value;
+    }
+
+    async has(key: string): Promise<boolean> {
+        return (await this.get(key)) !== undefined;
+    }
+
+    async set(key: string, value: T, ttlMs: number | undefined = this.options.ttlMs): Promise<void> {
+        this.remove(key);
+
+        const entry: StoredEntry<T> = {
+            value,
+            expiresAt: ttlMs ? Date.now() + ttlMs : null,
+            size: measure(value)
+        };
+        this.items.set(key, entry);
+        this.totalBytes += entry.size;
+
+        this.evict();
+        this.changed();
+    }
+
+    async delete(key: string): Promise<boolean> {
+        const existed = this.remove(key);
+        if (existed) this.changed();
+        return existed;
+    }
+
+    async entries(): Promise<[string, T][]> {
+        this.pruneExpired();
+        return Array.from(this.items.entries(), ([key, entry]) => [key, entry.value]);
+    }
+
+    async flush(): Promise<void> {
+        // Nothing to persist
+    }
+
+    /** Hook for subclasses that need to persist after a mutation. */
+    protected changed(): void {}
+
+    protected isExpired(entry: StoredEntry<T>, now: number = Date.now()): boolean {
+        return entry.expiresAt !== null && entry.expiresAt <= now;
+    }
+
+    protected remove(key: string): boolean {
+        const entry = this.items.get(key);
+        if (!entry) return false;
+        this.items.delete(key);
+        this.totalBytes -= entry.size;
+        return true;
+    }
+
+    protected pruneExpired(): number {
+        const now = Date.now();
+        let removed = 0;
+        for (const [key, entry] of this.items) {
+            if (this.isExpired(entry, now)) {
+                this.remove(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    protected evict(): void {
+        this.pruneExpired();
+
+        const { maxEntries, maxBytes } = this.options;
+        for (const key of this.items.keys()) {
+            const overCount = maxEntries !== undefined && this.items.size > maxEntries;
+            const overBytes = maxBytes !== undefined && this.totalBytes > maxBytes;
+            if (!overCount && !overBytes) break;
+            this.remove(key);
+        }
+    }
+}
+
+function measure(value: unknown): number {
+    try {
+        return JSON.stringify(value)?.length ?? 0;
+    } catch {
+        return 0;
+    }
+}
@@ -0,0 +1,22 @@
+// Storage abstraction shared by the bot's persistent state (conversations, image metadata, ...)
+
+export interface StoreOptions {
+    /** Default time-to-live for entries in milliseconds. Entries never expire when omitted. */
+    ttlMs?: number;
+    /** Maximum number of entries kept; the least recently used entries are evicted first. */
+    maxEntries?: number;
+    /** Approximate cap on the serialized size of all values, in bytes. */
+    maxBytes?: number;
+}
+
+export interface Store<T> {
+    get(key: string): Promise<T | undefined>;
+    has(key: string): Promise<boolean>;
+    set(key: string, value: T, ttlMs?: number): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    entries(): Promise<[string, T][]>;
+    /** Persist any pending writes. A no-op for purely in-memory backends. */
+    flush(): Promise<void>;
+}
+
+export type StoreBackend = 'memory' | 'file';
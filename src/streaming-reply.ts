@@ -0,0 +1,119 @@
+// A reply that grows while the model streams, spread over as many messages as it needs
+
+import { AttachmentBuilder, Message } from 'discord.js';
+import { splitMessage } from './message-split.js';
+
+// Discord allows roughly 5 edits per 5 seconds per channel; stay well below that
+const EDIT_INTERVAL_MS = Number(process.env.STREAM_EDIT_INTERVAL_MS ?? 1500);
+// Answers longer than this are sent as a .md attachment with a preview; 0 always splits instead
+const ATTACH_AFTER_CHARS = Number(process.env.CHAT_ATTACH_AFTER_CHARS ?? 6000);
+
+const CURSOR = ' ▌';
+const PREVIEW_CHARS = 1500;
+
+export class StreamingReply {
+    private messages: Message[] = [];
+    private text = '';
+    private lastFlush = 0;
+    private pending: ReturnType<typeof setTimeout> | null = null;
+    // Flushes are chained so edits never overlap or arrive out of order
+    private flushing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly source: Message) {}
+
+    /** Every message the reply currently occupies, first to last */
+    get posted(): Message[] {
+        return [...this.messages];
+    }
+
+    /** Set the text received so far. Edits are throttled; call `finish` with the final text. */
+    update(text: string): void {
+        this.text = text;
+        if (this.pending) return;
+
+        const wait = Math.max(0, this.lastFlush + EDIT_INTERVAL_MS - Date.now());
+        this.pending = setTimeout(() => {
+            this.pending = null;
+            this.queueFlush(splitMessage(this.text + CURSOR));
+        }, wait);
+    }
+
+    /** Post the complete answer, attaching it as a file when it is very long */
+    async finish(text: string): Promise<Message[]> {
+        this.cancelPending();
+        this.text = text;
+
+        if (ATTACH_AFTER_CHARS > 0 && text.length > ATTACH_AFTER_CHARS) {
+            await this.flushing;
+            await this.finishAsAttachment(text);
+        } else {
+            await this.queueFlush(splitMessage(text || '…'));
+        }
+        return this.posted;
+    }
+
+    /** Stop streaming and note the failure after whatever text already arrived */
+    async fail(note: string): Promise<Message[]> {
+        this.cancelPending();
+        const text = this.text ? `${this.text}\n\n${note}` : note;
+        await this.queueFlush(splitMessage(text));
+        return this.posted;
+    }
+
+    private cancelPending(): void {
+        if (this.pending) {
+            clearTimeout(this.pending);
+            this.pending = null;
+        }
+    }
+
+    private queueFlush(chunks: string[]): Promise<void> {
+        this.flushing = this.flushing
+            .then(() => this.render(chunks))
+            .catch(error => console.error('Failed to update streamed reply:', error));
+        return this.flushing;
+    }
+
+    /** Edit messages whose chunk changed, post new ones for extra chunks, delete leftovers */
+    private async render(chunks: string[]): Promise<void> {
+        this.lastFlush = Date.now();
+
+        for (let i = 0; i < chunks.length; i++) {
+            const existing = this.messages[i];
+            if (existing) {
+                if (existing.content !== chunks[i]) {
+                    this.messages[i] = await existing.edit(chunks[i]);
+                }
+            } else {
+                this.messages.push(await this.post(chunks[i]));
+            }
+        }
+
+        // Cut points can move as text arrives, occasionally leaving a trailing message empty
+        for (const extra of this.messages.splice(chunks.length)) {
+            await extra.delete().catch(() => undefined);
+        }
+    }
+
+    private async post(content: string): Promise<Message> {
+        if (this.messages.length === 0) return this.source.reply(content);
+        // Follow-ups reply to the previous part so the answer reads as one chain
+        return this.messages[this.messages.length - 1].reply({ content, allowedMentions: { repliedUser: false } });
+    }
+
+    private async finishAsAttachment(text: string): Promise<void> {
+        const [preview] = splitMessage(text, PREVIEW_CHARS);
+        const content = `${preview}\n\n📎 *The full answer (${text.length.toLocaleString('en-US')} characters) is attached.*`;
+        const files = [new AttachmentBuilder(Buffer.from(text, 'utf8'), { name: 'response.md' })];
+
+        const [first, ...rest] = this.messages;
+        if (first) {
+            this.messages = [await first.edit({ content, files })];
+            for (const extra of rest) {
+                await extra.delete().catch(() => undefined);
+            }
+        } else {
+            this.messages = [await this.source.reply({ content, files })];
+        }
+    }
+}
@@ -0,0 +1,443 @@
+// Studio sessions: a thread per generation where every message is an edit step on one image,
+// with a structured history that supports undo, branching from earlier steps and export
+
+import {
+    ActionRowBuilder,
+    AttachmentBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    Message,
+    ThreadAutoArchiveDuration
+} from 'discord.js';
+import { createStore } from './storage/index.js';
+import { AspectRatio, InlineImage, ProviderName } from './providers/index.js';
+import { getPreset } from './prompt-presets.js';
+import {
+    ImageGenerationData,
+    MAX_VARIANT_COUNT,
+    StylePreset,
+    VariantData,
+    generateImages,
+    messageTarget
+} from './generation.js';
+
+export interface StudioStep {
+    id: number;
+    /** Step this edit was applied to; 0 is the base image */
+    parentId: number;
+    instruction: string;
+    userId: string;
+    createdAt: string;
+    /** Result message in the thread */
+    messageId: string;
+    variants: InlineImage[];
+    /** 1-based index of the variant later steps build on */
+    chosen: number;
+}
+
+export interface StudioSession {
+    threadId: string;
+    guildId: string;
+    ownerId: string;
+    basePrompt: string;
+    baseImage: InlineImage;
+    provider?: ProviderName;
+    aspectRatio?: AspectRatio;
+    style?: StylePreset;
+    negativePrompt?: string;
+    steps: StudioStep[];
+    /** Step the next edit applies to; 0 is the base image */
+    headStepId: number;
+}
+
+export type StudioCommand =
+    | { type: 'undo' }
+    | { type: 'history' }
+    | { type: 'export' }
+    | { type: 'help' }
+    | { type: 'goto', stepId: number }
+    | { type: 'edit', instruction: string };
+
+interface StudioReply {
+    content: string;
+    files?: AttachmentBuilder[];
+}
+
+export const MAX_STUDIO_STEPS = 50;
+const STUDIO_VARIANT_COUNT = Math.min(Math.max(Number(process.env.STUDIO_VARIANT_COUNT) || 2, 1), MAX_VARIANT_COUNT);
+const STUDIO_PREFIX = 'studio';
+
+// threadId -> session; every step keeps its images, so the store is capped by size
+const sessions = createStore<StudioSession>('studio-sessions', {
+    ttlMs: 14 * 24 * 60 * 60 * 1000,
+    maxBytes: 64 * 1024 * 1024
+});
+
+// Threads with an edit in flight; a second edit would build on a head that is about to move
+const busyThreads = new Set<string>();
+
+const HELP_TEXT = [
+    'Every message in this thread is an edit to the current image, e.g. `make the sky purple`.',
+    'Pick the variant to keep with the **Keep #N** buttons; the next edit builds on it.',
+    '',
+    '`undo` – go back one step',
+    '`goto N` (or `branch N`) – continue from step N; `goto 0` is the original image',
+    '`history` – list every step',
+    '`export` – post the current image with its edit history to the channel',
+    'Messages starting with `//` are ignored.'
+].join('\n');
+
+export function createSession(
+    fields: Omit<StudioSession, 'steps' | 'headStepId'>
+): StudioSession {
+    return { ...fields, steps: [], headStepId: 0 };
+}
+
+export function getStep(session: StudioSession, stepId: number): StudioStep | undefined {
+    return session.steps.find(step => step.id === stepId);
+}
+
+/** Steps from the base image to `stepId` (the head by default), oldest first */
+export function getLineage(session: StudioSession, stepId: number = session.headStepId): StudioStep[] {
+    const lineage: StudioStep[] = [];
+    for (let step = getStep(session, stepId); step; step = getStep(session, step.parentId)) {
+        lineage.unshift(step);
+    }
+    return lineage;
+}
+
+/** The image the next edit applies to */
+export function getHeadImage(session: StudioSession): InlineImage {
+    const head = getStep(session, session.headStepId);
+    return head ? head.variants[head.chosen - 1] ?? head.variants[0] : session.baseImage;
+}
+
+/** Record a finished edit and move the head to its first variant */
+export function addStep(session: StudioSession, step: Omit<StudioStep, 'id' | 'chosen'>): StudioSession {
+    const id = session.steps.reduce((max, existing) => Math.max(max, existing.id), 0) + 1;
+    return {
+        ...session,
+        steps: [...session.steps, { ...step, id, chosen: 1 }],
+        headStepId: id
+    };
+}
+
+/** Keep another variant of a step; choosing on an earlier step branches from there */
+export function chooseVariant(session: StudioSession, stepId: number, index: number): StudioSession | null {
+    const step = getStep(session, stepId);
+    if (!step || index < 1 || index > step.variants.length) return null;
+    return {
+        ...session,
+        steps: session.steps.map(existing => existing.id === stepId ? { ...existing, chosen: index } : existing),
+        headStepId: stepId
+    };
+}
+
+/** Move the head to its parent. Null when already at the base image. */
+export function stepBack(session: StudioSession): StudioSession | null {
+    const head = getStep(session, session.headStepId);
+    return head ? { ...session, headStepId: head.parentId } : null;
+}
+
+/** Move the head to any step (0 for the base image); the next edit starts a branch from there */
+export function goToStep(session: StudioSession, stepId: number): StudioSession | null {
+    if (stepId !== 0 && !getStep(session, stepId)) return null;
+    return { ...session, headStepId: stepId };
+}
+
+export function parseStudioCommand(text: string): StudioCommand {
+    const trimmed = text.trim();
+    const lower = trimmed.toLowerCase();
+    if (lower === 'undo') return { type: 'undo' };
+    if (lower === 'history') return { type: 'history' };
+    if (lower === 'export') return { type: 'export' };
+    if (lower === 'help') return { type: 'help' };
+
+    const goto = lower.match(/^(?:goto|branch)\s+#?(\d+)$/);
+    if (goto) return { type: 'goto', stepId: Number(goto[1]) };
+
+    return { type: 'edit', instruction: trimmed };
+}
+
+/**
+ * System instructions for the next edit. The model only sees the head image, so the original
+ * prompt and the edits that led to it are described rather than chained onto the prompt.
+ */
+export function buildEditInstructions(session: StudioSession): string {
+    const lineage = getLineage(session);
+    const lines = [
+        'You are editing the attached image one step at a time.',
+        "Apply only the user's requested edit. Keep the composition, subjects, style and every detail the edit doesn't mention unchanged.",
+        `The image was originally generated from this prompt: "${session.basePrompt}"`
+    ];
+    if (lineage.length > 0) {
+        lines.push('These edits have already been applied, in order:');
+        lines.push(...lineage.map((step, i) => `${i + 1}. ${step.instruction}`));
+    }
+    return lines.join('\n');
+}
+
+export function isStudioButton(customId: string): boolean {
+    return customId.startsWith(`${STUDIO_PREFIX}:`);
+}
+
+function buildControlRow(): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`${STUDIO_PREFIX}:undo`)
+            .setLabel('Undo')
+            .setEmoji('↩️')
+            .setStyle(ButtonStyle.Secondary),
+        new ButtonBuilder()
+            .setCustomId(`${STUDIO_PREFIX}:history`)
+            .setLabel('History')
+            .setEmoji('📜')
+            .setStyle(ButtonStyle.Secondary),
+        new ButtonBuilder()
+            .setCustomId(`${STUDIO_PREFIX}:export`)
+            .setLabel('Export')
+            .setEmoji('📦')
+            .setStyle(ButtonStyle.Success)
+    );
+}
+
+/** "Keep #N" buttons for a step's variants, then the session controls */
+function buildStepRows(step: StudioStep): ActionRowBuilder<ButtonBuilder>[] {
+    const chooseRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        step.variants.map((_, i) => new ButtonBuilder()
+            .setCustomId(`${STUDIO_PREFIX}:choose:${step.id}:${i + 1}`)
+            .setLabel(step.chosen === i + 1 ? `Keeping #${i + 1}` : `Keep #${i + 1}`)
+            .setStyle(step.chosen === i + 1 ? ButtonStyle.Primary : ButtonStyle.Secondary))
+    );
+    return step.variants.length > 1 ? [chooseRow, buildControlRow()] : [buildControlRow()];
+}
+
+function imageFile(image: InlineImage, name: string): AttachmentBuilder {
+    return new AttachmentBuilder(Buffer.from(image.data, 'base64'), { name });
+}
+
+function describeHead(session: StudioSession): string {
+    const head = getStep(session, session.headStepId);
+    return head ? `step #${head.id} (variant #${head.chosen}): ${head.instruction}` : 'the original image';
+}
+
+function renderHistory(session: StudioSession): string {
+    if (session.steps.length === 0) {
+        return '📜 No edits yet. Send a message to make the first one.';
+    }
+
+    const current = new Set(getLineage(session).map(step => step.id));
+    const lines = session.steps.map(step => {
+        const marker = step.id === session.headStepId ? '▶' : current.has(step.id) ? '•' : '◦';
+        const from = step.parentId === 0 ? 'original' : `#${step.parentId}`;
+        return `${marker} **#${step.id}** (from ${from}, keeping #${step.chosen}) <@${step.userId}>: ${step.instruction}`;
+    });
+    return `📜 **Edit history** – ▶ current, • on the current path, ◦ other branches\n${lines.join('\n')}`.slice(0, 2000);
+}
+
+/** Open a studio thread on the result message, starting from one of its variants */
+export async function openStudio(interaction: ButtonInteraction, metadata: ImageGenerationData, variant: VariantData) {
+    if (!interaction.guildId || !interaction.channel || interaction.channel.isThread()) {
+        await interaction.reply({ content: 'Studio sessions can only be opened from a server text channel.', ephemeral: true });
+        return;
+    }
+
+    if (interaction.message.thread) {
+        await interaction.reply({ content: `A thread is already open for this generation: <#${interaction.message.thread.id}>`, ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    let thread;
+    try {
+        thread = await interaction.message.startThread({
+            name: `🎨 ${metadata.prompt}`.slice(0, 100),
+            autoArchiveDuration: ThreadAutoArchiveDuration.OneDay
+        });
+    } catch (err) {
+        console.error('Failed to start studio thread:', err);
+        await interaction.editReply("❌ Couldn't create a thread here. Check that I have the **Create Public Threads** permission.");
+        return;
+    }
+
+    // The studio ignores presets, so keep the preset's aspect ratio explicitly
+    const { settings = {} } = metadata;
+    const preset = settings.preset ? await getPreset(interaction.guildId, settings.preset) : undefined;
+
+    const session = createSession({
+        threadId: thread.id,
+        guildId: interaction.guildId,
+        ownerId: interaction.user.id,
+        basePrompt: metadata.prompt,
+        baseImage: variant.image,
+        provider: metadata.provider,
+        aspectRatio: settings.aspectRatio ?? preset?.aspectRatio,
+        style: settings.style,
+        negativePrompt: settings.negativePrompt
+    });
+    await sessions.set(thread.id, session);
+
+    await thread.send({
+        content: `🎨 **Studio** started by <@${interaction.user.id}> from variant #${variant.index}.\n\n${HELP_TEXT}`,
+        files: [imageFile(variant.image, 'studio_original.png')],
+        components: [buildControlRow()],
+        allowedMentions: { parse: [] }
+    });
+    await interaction.editReply(`🎨 Studio opened: <#${thread.id}>`);
+}
+
+/** Handle a message posted in a studio thread. Returns false if the channel isn't a studio. */
+export async function handleStudioMessage(message: Message): Promise<boolean> {
+    if (!message.channel.isThread()) return false;
+    const session = await sessions.get(message.channelId);
+    if (!session) return false;
+
+    const text = message.content.replace(/<@!?[0-9]+>/g, '').trim();
+    if (!text || text.startsWith('//')) return true;
+
+    const command = parseStudioCommand(text);
+    if (command.type === 'edit') {
+        await runEditStep(message, session, command.instruction);
+    } else if (command.type === 'help') {
+        await message.reply(HELP_TEXT);
+    } else if (command.type === 'export') {
+        await message.reply({ ...(await exportSession(session, message.author.id, message)), allowedMentions: { parse: [] } });
+    } else {
+        await message.reply({ ...(await runCommand(session.threadId, command)), allowedMentions: { parse: [] } });
+    }
+    return true;
+}
+
+/** History, undo and goto; the session is re-read since an edit may have finished meanwhile */
+async function runCommand(threadId: string, command: StudioCommand): Promise<StudioReply> {
+    const session = await sessions.get(threadId);
+    if (!session) return { content: 'This studio session has expired.' };
+
+    if (command.type === 'history') {
+        return { content: renderHistory(session) };
+    }
+
+    const updated = command.type === 'undo'
+        ? stepBack(session)
+        : command.type === 'goto' ? goToStep(session, command.stepId) : null;
+    if (!updated) {
+        return { content: command.type === 'undo' ? 'Nothing to undo: this is the original image.' : 'There is no such step. See `history`.' };
+    }
+
+    await sessions.set(threadId, updated);
+    const verb = command.type === 'undo' ? '↩️ Back to' : '🌿 Continuing from';
+    return {
+        content: `${verb} ${describeHead(updated)}. The next edit branches from here.`,
+        files: [imageFile(getHeadImage(updated), 'studio_current.png')]
+    };
+}
+
+async function runEditStep(message: Message, session: StudioSession, instruction: string) {
+    if (busyThreads.has(session.threadId)) {
+        await message.reply('⏳ An edit is already in progress here. Wait for it to finish first.');
+        return;
+    }
+    if (session.steps.length >= MAX_STUDIO_STEPS) {
+        await message.reply(`This studio has reached ${MAX_STUDIO_STEPS} steps. Use \`export\` and start a new one.`);
+        return;
+    }
+
+    busyThreads.add(session.threadId);
+    try {
+        // The edit applies to the head as it was when requested, even if someone moves it meanwhile
+        const parentId = session.headStepId;
+        const result = await generateImages(messageTarget(message), {
+            prompt: instruction,
+            references: [getHeadImage(session)],
+            systemInstructions: buildEditInstructions(session),
+            provider: session.provider,
+            aspectRatio: session.aspectRatio,
+            style: session.style,
+            negativePrompt: session.negativePrompt,
+            variantCount: STUDIO_VARIANT_COUNT
+        });
+        if (!result) return;
+
+        const latest = await sessions.get(session.threadId);
+        if (!latest) return;
+
+        const updated = addStep(latest, {
+            parentId,
+            instruction,
+            userId: message.author.id,
+            createdAt: new Date().toISOString(),
+            messageId: result.message.id,
+            variants: result.variants.map(variant => variant.image)
+        });
+        await sessions.set(session.threadId, updated);
+
+        const step = getStep(updated, updated.headStepId)!;
+        await result.message.edit({
+            content: `**Step #${step.id}**: ${instruction}`.slice(0, 2000),
+            components: buildStepRows(step)
+        });
+    } finally {
+        busyThreads.delete(session.threadId);
+    }
+}
+
+/** Post the current image and the edits that produced it to the thread's parent channel */
+async function exportSession(session: StudioSession, userId: string, source: Message | ButtonInteraction): Promise<StudioReply> {
+    const lineage = getLineage(session);
+    const summary = [
+        `📦 **Studio export** by <@${userId}>`,
+        `**Prompt:** ${session.basePrompt}`,
+        lineage.length > 0
+            ? `**Edits:**\n${lineage.map((step, i) => `${i + 1}. ${step.instruction}`).join('\n')}`
+            : '**Edits:** none'
+    ].join('\n').slice(0, 1900);
+
+    const channel = source.channel?.isThread() ? source.channel.parent : null;
+    if (channel?.isSendable()) {
+        try {
+            const posted = await channel.send({
+                content: `${summary}\n\n<#${session.threadId}>`,
+                files: [imageFile(getHeadImage(session), 'studio_export.png')],
+                allowedMentions: { parse: [] }
+            });
+            return { content: `📦 Exported to ${posted.url}` };
+        } catch (err) {
+            console.error('Failed to post studio export:', err);
+        }
+    }
+
+    // No parent channel to post in, so the export stays in the thread
+    return { content: summary, files: [imageFile(getHeadImage(session), 'studio_export.png')] };
+}
+
+export async function handleStudioButton(interaction: ButtonInteraction) {
+    const [, action, ...args] = interaction.customId.split(':');
+    const session = await sessions.get(interaction.channelId);
+    if (!session) {
+        await interaction.reply({ content: 'This studio session has expired.', ephemeral: true });
+        return;
+    }
+
+    if (action === 'choose') {
+        const [stepId, index] = args.map(Number);
+        const updated = chooseVariant(session, stepId, index);
+        if (!updated) {
+            await interaction.reply({ content: 'That variant is no longer available.', ephemeral: true });
+            return;
+        }
+        await sessions.set(session.threadId, updated);
+        await interaction.update({ components: buildStepRows(getStep(updated, stepId)!) });
+        return;
+    }
+
+    if (action === 'export') {
+        await interaction.deferReply();
+        await interaction.editReply({ ...(await exportSession(session, interaction.user.id, interaction)), allowedMentions: { parse: [] } });
+    } else if (action === 'undo' || action === 'history') {
+        // History is only for the person asking; moving the head is shown to everyone in the thread
+        const reply = await runCommand(session.threadId, { type: action });
+        await interaction.reply({ ...reply, ephemeral: action === 'history', allowedMentions: { parse: [] } });
+    }
+}
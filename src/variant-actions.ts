@@ -0,0 +1,130 @@
+// Button and modal handlers for the action rows under generated variants
+
+import { 
+    ActionRowBuilder, 
+    ButtonInteraction, 
+    ModalBuilder, 
+    ModalSubmitInteraction, 
+    TextInputBuilder, 
+    TextInputStyle
+} from 'discord.js';
+import { 
+    ImageGenerationData, 
+    VARIANT_ACTION_PREFIX, 
+    VariantData, 
+    generateImages, 
+    imageMetadata, 
+    interactionTarget 
+} from './generation.js';
+import { openStudio } from './studio.js';
+
+// Modal IDs carry the result message ID, since a modal submission is not tied to the message
+export const VARIANT_MODAL_PREFIX = 'variant-modal';
+
+const EXPIRED_MESSAGE = 'This generation is no longer available. Generate a new image to continue iterating.';
+
+async function lookupVariant(messageId: string, indexStr: string | undefined): Promise<{ metadata?: ImageGenerationData, variant?: VariantData }> {
+    const metadata = await imageMetadata.get(messageId);
+    const variant = metadata?.variants.find(v => v.index === Number(indexStr));
+    return { metadata, variant };
+}
+
+export async function handleButton(interaction: ButtonInteraction) {
+    const [, action, indexStr] = interaction.customId.split(':');
+    const messageId = interaction.message.id;
+    const { metadata, variant } = await lookupVariant(messageId, indexStr);
+
+    if (!metadata || (action !== 'reroll' && !variant)) {
+        await interaction.reply({ content: EXPIRED_MESSAGE, ephemeral: true });
+        return;
+    }
+
+    if (action === 'reroll') {
+        await interaction.deferReply();
+        await generateImages(interactionTarget(interaction), {
+            ...metadata.settings,
+            prompt: metadata.prompt,
+            references: metadata.references,
+            variationOf: metadata.variationOf,
+            provider: metadata.provider
+        });
+    } else if (action === 'vary') {
+        await interaction.deferReply();
+        await generateImages(interactionTarget(interaction), {
+            ...metadata.settings,
+            prompt: metadata.prompt,
+            variationOf: variant!.image,
+            provider: metadata.provider
+        });
+    } else if (action === 'ref') {
+        await interaction.showModal(buildModal(
+            `${VARIANT_MODAL_PREFIX}:ref:${messageId}:${indexStr}`,
+            `Use #${indexStr} as reference`,
+            'Prompt',
+            'What should be generated from this image?'
+        ));
+    } else if (action === 'edit') {
+        await interaction.showModal(buildModal(
+            `${VARIANT_MODAL_PREFIX}:edit:${messageId}:${indexStr}`,
+            `Edit #${indexStr}`,
+            'Modification',
+            'e.g. make the sky purple'
+        ));
+    } else if (action === 'studio') {
+        await openStudio(interaction, metadata, variant!);
+    }
+}
+
+export async function handleModal(interaction: ModalSubmitInteraction) {
+    const [, action, messageId, indexStr] = interaction.customId.split(':');
+    const { metadata, variant } = await lookupVariant(messageId, indexStr);
+
+    if (!metadata || !variant) {
+        await interaction.reply({ content: EXPIRED_MESSAGE, ephemeral: true });
+        return;
+    }
+
+    const text = interaction.fields.getTextInputValue('text').trim();
+    await interaction.deferReply();
+
+    if (action === 'ref') {
+        await generateImages(interactionTarget(interaction), {
+            ...metadata.settings,
+            prompt: text,
+            references: [variant.image],
+            provider: metadata.provider
+        });
+    } else if (action === 'edit') {
+        // Regenerate from the chosen variant only, not every image in the result
+        await generateImages(interactionTarget(interaction), {
+            ...metadata.settings,
+            prompt: `${metadata.prompt}, ${text}`,
+            previousGeneratedImages: [variant.image],
+            isRegeneration: true,
+            provider: metadata.provider
+        });
+    }
+}
+
+function buildModal(customId: string, title: string, label: string, placeholder: string): ModalBuilder {
+    const input = new TextInputBuilder()
+        .setCustomId('text')
+        .setLabel(label)
+        .setPlaceholder(placeholder)
+        .setStyle(TextInputStyle.Paragraph)
+        .setRequired(true)
+        .setMaxLength(1000);
+
+    return new ModalBuilder()
+        .setCustomId(customId)
+        .setTitle(title)
+        .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+}
+
+export function isVariantButton(customId: string): boolean {
+    return customId.startsWith(`${VARIANT_ACTION_PREFIX}:`);
+}
+
+export function isVariantModal(customId: string): boolean {
+    return customId.startsWith(`${VARIANT_MODAL_PREFIX}:`);
+}
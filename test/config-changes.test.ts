@@ -0,0 +1,76 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { MockBackend } from '../src/mock-config-backend.js';
+import { setupBackend, teardownBackend } from './helpers.js';
+
+let backend: MockBackend;
+let storageDir: string;
+let changes: typeof import('../src/config-changes.js');
+
+const client = { channels: { fetch: async () => null } } as any;
+const actor = { userId: 'user-1', userTag: 'tester#0001' };
+
+before(async () => {
+    ({ backend, storageDir } = await setupBackend());
+    changes = await import('../src/config-changes.js');
+});
+
+after(async () => {
+    await teardownBackend(backend, storageDir);
+});
+
+describe('applyConfigChanges', () => {
+    test('records the replaced value in the audit entry', async () => {
+        const before = backend.getConfigs('/dev')['retry.maxRetries'];
+        const { auditEntries: [entry], oldValues } = await changes.applyConfigChanges(client, 'Dev', { 'retry.maxRetries': 4 }, actor, 'edit');
+
+        assert.equal(entry.oldValue, before);
+        assert.equal(oldValues['retry.maxRetries'], before);
+        assert.equal(entry.newValue, 4);
+    });
+
+    test('refuses the change when the current config cannot be read', async () => {
+        const { getEnvironment } = await import('../src/environments.js');
+        const dev = getEnvironment('Dev');
+        const waf = dev.wafHeader;
+        dev.wafHeader = undefined;
+        const updates = backend.updates.length;
+
+        try {
+            await assert.rejects(
+                changes.applyConfigChanges(client, 'Dev', { 'retry.maxRetries': 5 }, actor, 'edit'),
+                /Couldn't read the current Dev config, so nothing was changed: API returned 403/
+            );
+        } finally {
+            dev.wafHeader = waf;
+        }
+        assert.equal(backend.updates.length, updates);
+    });
+
+    test('reports a failed audit write without failing the change, and keeps logging afterwards', async () => {
+        const auditPath = path.join(storageDir, 'config-audit.jsonl');
+        const saved = `${auditPath}.saved`;
+        // A directory in the log's place makes the append fail
+        await fs.rename(auditPath, saved);
+        await fs.mkdir(auditPath);
+
+        let failed;
+        try {
+            failed = await changes.applyConfigChanges(client, 'Dev', { 'retry.maxRetries': 6 }, actor, 'edit');
+        } finally {
+            await fs.rm(auditPath, { recursive: true });
+            await fs.rename(saved, auditPath);
+        }
+        assert.ok(failed.auditError);
+        assert.deepEqual(failed.auditEntries, []);
+        assert.equal(backend.getConfigs('/dev')['retry.maxRetries'], 6);
+
+        const { auditEntries: [entry], auditError } = await changes.applyConfigChanges(client, 'Dev', { 'retry.maxRetries': 7 }, actor, 'edit');
+        assert.equal(auditError, undefined);
+        assert.equal(entry.oldValue, 6);
+        const { getAuditEntry } = await import('../src/audit-log.js');
+        assert.equal((await getAuditEntry(entry.id - 1))?.newValue, 4);
+    });
+});
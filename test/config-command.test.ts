@@ -0,0 +1,147 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONFIG_DEFAULTS } from '../src/config-service.js';
+import { MockBackend } from '../src/mock-config-backend.js';
+import { createInteraction, lastContent, lastEmbed, setupBackend, teardownBackend } from './helpers.js';
+
+let backend: MockBackend;
+let storageDir: string;
+let command: typeof import('../src/commands/config.js');
+
+before(async () => {
+    ({ backend, storageDir } = await setupBackend());
+    command = await import('../src/commands/config.js');
+});
+
+after(async () => {
+    await teardownBackend(backend, storageDir);
+});
+
+beforeEach(() => {
+    backend.setFailure(null);
+    Object.assign(backend.getConfigs('/dev'), CONFIG_DEFAULTS);
+    backend.updates.length = 0;
+});
+
+describe('/config view', () => {
+    test('groups values by category and formats them with their unit', async () => {
+        const { interaction, calls } = createInteraction({ subcommand: 'view', options: { env: 'Dev' } });
+        await command.execute(interaction);
+
+        const embed = lastEmbed(calls);
+        assert.equal(embed?.title, 'Configuration: Dev');
+
+        const cache = embed?.fields?.find(field => field.name === 'CACHE');
+        assert.match(cache!.value, /`cache\.ttlRap`: 60s/);
+        assert.match(cache!.value, /`cache\.ttlHistory`: 10m/);
+
+        const marketplace = embed?.fields?.find(field => field.name === 'MARKETPLACE');
+        assert.match(marketplace!.value, /`marketplace\.enabled`: ✅/);
+    });
+
+    test('flags values the schema would reject', async () => {
+        backend.getConfigs('/dev')['retry.maxRetries'] = 1e9;
+
+        const { interaction, calls } = createInteraction({ subcommand: 'view', options: { env: 'Dev' } });
+        await command.execute(interaction);
+
+        const retry = lastEmbed(calls)?.fields?.find(field => field.name === 'RETRY');
+        assert.match(retry!.value, /`retry\.maxRetries`: 1,000,000,000 ⚠️/);
+    });
+
+    test('reports backend failures', async () => {
+        backend.setFailure({ status: 503, message: 'Database unavailable' });
+
+        const { interaction, calls } = createInteraction({ subcommand: 'view', options: { env: 'Dev' } });
+        await command.execute(interaction);
+
+        assert.equal(lastContent(calls), 'Failed to fetch config: API returned 503: Service Unavailable');
+    });
+});
+
+describe('/config edit', () => {
+    test('applies the value after confirmation', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'cache.ttlRap', value: '90s' },
+            button: 'confirm'
+        });
+        await command.execute(interaction);
+
+        assert.deepEqual(backend.updates, [{ pathname: '/dev', body: { 'cache.ttlRap': 90_000 } }]);
+        assert.equal(backend.getConfigs('/dev')['cache.ttlRap'], 90_000);
+        assert.equal(lastEmbed(calls)?.title, 'Configuration Updated');
+    });
+
+    test('does nothing when cancelled', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'packs.buyEnabled', value: 'false' },
+            button: 'cancel'
+        });
+        await command.execute(interaction);
+
+        assert.equal(backend.updates.length, 0);
+        assert.equal(lastContent(calls), 'Operation cancelled.');
+    });
+
+    test('does nothing when the confirmation times out', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'packs.buyEnabled', value: 'false' }
+        });
+        await command.execute(interaction);
+
+        assert.equal(backend.updates.length, 0);
+        assert.equal(lastContent(calls), 'Confirmation timed out.');
+    });
+
+    test('rejects values outside the schema range before contacting the backend', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'marketplace.rapPriorityMin', value: '-50' },
+            button: 'confirm'
+        });
+        await command.execute(interaction);
+
+        assert.equal(calls[0].method, 'reply');
+        assert.equal(calls[0].payload.ephemeral, true);
+        assert.match(calls[0].payload.content, /must be within/);
+        assert.equal(backend.updates.length, 0);
+    });
+
+    test('rejects values that break a cross-key constraint', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'marketplace.rapPriorityMin', value: '2' },
+            button: 'confirm'
+        });
+        await command.execute(interaction);
+
+        assert.match(lastContent(calls)!, /rapPriorityMin` must be less than `marketplace\.rapPriorityMax/);
+        assert.equal(backend.updates.length, 0);
+    });
+
+    test('rejects unknown keys', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'marketplace.nope', value: '1' }
+        });
+        await command.execute(interaction);
+
+        assert.match(lastContent(calls)!, /Invalid config key/);
+    });
+
+    test('denies users without a permission rule', async () => {
+        const { interaction, calls } = createInteraction({
+            subcommand: 'edit',
+            options: { env: 'Dev', key: 'retry.maxRetries', value: '3' },
+            button: 'confirm',
+            isAdmin: false
+        });
+        await command.execute(interaction);
+
+        assert.match(lastContent(calls)!, /⛔ You don't have \*\*edit\*\* access to Dev/);
+        assert.equal(backend.updates.length, 0);
+    });
+});
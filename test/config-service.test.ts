@@ -0,0 +1,99 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockBackend, MockNestedResponse } from '../src/mock-config-backend.js';
+import { setupBackend, teardownBackend } from './helpers.js';
+
+let backend: MockBackend;
+let storageDir: string;
+let service: typeof import('../src/config-service.js');
+
+before(async () => {
+    ({ backend, storageDir } = await setupBackend());
+    service = await import('../src/config-service.js');
+});
+
+after(async () => {
+    await teardownBackend(backend, storageDir);
+});
+
+function isNestedResponse(value: unknown): value is MockNestedResponse {
+    return typeof value === 'object' && value !== null && 'data' in value;
+}
+
+beforeEach(() => {
+    backend.setShape('nested');
+});
+
+describe('fetchConfig', () => {
+    test('reads configs nested under data', async () => {
+        const result = await service.fetchConfig('Dev');
+
+        assert.equal(result.configs['marketplace.maxListings'], 256);
+        assert.equal(result.defaults['cache.ttlRap'], 60_000);
+    });
+
+    test('reads configs at the root of the response', async () => {
+        backend.setShape('root');
+        const result = await service.fetchConfig('Dev');
+
+        assert.equal(result.configs['marketplace.enabled'], true);
+    });
+
+    test('keeps environments separate', async () => {
+        backend.getConfigs('/prod')['retry.maxRetries'] = 7;
+
+        assert.equal((await service.fetchConfig('Prod')).configs['retry.maxRetries'], 7);
+        assert.equal((await service.fetchConfig('Dev')).configs['retry.maxRetries'], 5);
+    });
+
+    test('surfaces the status when the backend rejects the key', async () => {
+        const key = process.env.API_KEY_PROD;
+        const { getEnvironment } = await import('../src/environments.js');
+        const prod = getEnvironment('Prod');
+        prod.key = 'wrong-key';
+
+        try {
+            await assert.rejects(service.fetchConfig('Prod'), /API returned 401/);
+        } finally {
+            prod.key = key!;
+        }
+    });
+
+    test('rejects unknown environments', async () => {
+        await assert.rejects(service.fetchConfig('Staging'), /Unknown environment "Staging"/);
+    });
+});
+
+describe('updateConfig', () => {
+    test('posts the updates as one JSON body', async () => {
+        const before = backend.updates.length;
+        await service.updateConfig('Dev', { 'restock.minCcu': 12, 'packs.buyEnabled': false });
+
+        assert.deepEqual(backend.updates.slice(before), [
+            { pathname: '/dev', body: { 'restock.minCcu': 12, 'packs.buyEnabled': false } }
+        ]);
+        const { configs } = await service.fetchConfig('Dev');
+        assert.equal(configs['restock.minCcu'], 12);
+        assert.equal(configs['packs.buyEnabled'], false);
+    });
+
+    test('returns the backend response', async () => {
+        const response = await service.updateConfig('Dev', { 'retry.baseDelayMs': 75 });
+
+        assert.ok(isNestedResponse(response));
+        assert.equal(response.data.configs['retry.baseDelayMs'], 75);
+    });
+
+    test('throws with the response body on failure', async () => {
+        const { getEnvironment } = await import('../src/environments.js');
+        const dev = getEnvironment('Dev');
+        const waf = dev.wafHeader;
+        dev.wafHeader = undefined;
+
+        try {
+            await assert.rejects(service.updateConfig('Dev', { 'retry.maxRetries': 1 }), /API returned 403: .*Forbidden/);
+        } finally {
+            dev.wafHeader = waf;
+        }
+    });
+});
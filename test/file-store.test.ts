@@ -0,0 +1,104 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs, existsSync, statSync } from 'fs';
+import { FileStore } from '../src/storage/index.js';
+
+let storageDir: string;
+
+before(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-test-'));
+});
+
+after(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+});
+
+async function readLog(filePath: string): Promise<any[]> {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return raw.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe('FileStore', () => {
+    test('appends only the changed entries and replays them on load', async () => {
+        const filePath = path.join(storageDir, 'replay.jsonl');
+        const store = new FileStore<{ n: number }>(filePath);
+        await store.set('a', { n: 1 });
+        await store.set('b', { n: 2 });
+        await store.flush();
+
+        await store.set('a', { n: 3 });
+        await store.delete('b');
+        await store.flush();
+
+        const log = await readLog(filePath);
+        assert.equal(log.length, 4);
+        assert.deepEqual(log.slice(2).map(record => [record.op, record.key]), [['set', 'a'], ['delete', 'b']]);
+
+        const reloaded = new FileStore<{ n: number }>(filePath);
+        assert.deepEqual(await reloaded.entries(), [['a', { n: 3 }]]);
+    });
+
+    test('skips a truncated last line', async () => {
+        const filePath = path.join(storageDir, 'truncated.jsonl');
+        await fs.writeFile(filePath, '{"op":"set","key":"a","value":1,"expiresAt":null}\n{"op":"set","key":"b","val');
+
+        const store = new FileStore<number>(filePath);
+        assert.deepEqual(await store.entries(), [['a', 1]]);
+    });
+
+    test('compacts the log once it is mostly superseded records', async () => {
+        const filePath = path.join(storageDir, 'compact.jsonl');
+        const store = new FileStore<string>(filePath);
+        const value = 'x'.repeat(200 * 1024);
+        for (let i = 0; i < 8; i++) {
+            await store.set('only', `${i}${value}`);
+            await store.flush();
+        }
+
+        const log = await readLog(filePath);
+        assert.ok(log.length < 8, `expected a compacted log, got ${log.length} records`);
+        assert.equal((await new FileStore<string>(filePath).get('only'))?.[0], '7');
+    });
+
+    test('a shutdown flush during compaction is not lost to the rewrite', async () => {
+        const filePath = path.join(storageDir, 'shutdown.jsonl');
+        const tmpPath = `${filePath}.tmp`;
+        const value = 'x'.repeat(200 * 1024);
+        // A log that is mostly superseded records, so the next flush compacts it
+        await fs.writeFile(filePath, Array.from({ length: 6 }, (_, i) =>
+            JSON.stringify({ op: 'set', key: 'only', value: `${i}${value}`, expiresAt: null }) + '\n').join(''));
+
+        const store = new FileStore<string>(filePath);
+        await store.set('other', 'before');
+        let settled = false;
+        const flushing = store.flush().finally(() => { settled = true; });
+        // Wait until the rewrite has started writing the entries it knows about
+        while (!settled && !(statSync(tmpPath, { throwIfNoEntry: false })?.size)) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        assert.ok(existsSync(tmpPath), 'expected the flush to be compacting');
+
+        await store.set('late', 'saved at shutdown');
+        store.flushSync();
+        await flushing;
+
+        const reloaded = new FileStore<string>(filePath);
+        assert.equal(await reloaded.get('late'), 'saved at shutdown');
+        assert.equal(await reloaded.get('other'), 'before');
+        assert.equal((await reloaded.get('only'))?.[0], '5');
+        assert.equal(existsSync(tmpPath), false);
+    });
+
+    test('converts a store in the old single-file format', async () => {
+        const filePath = path.join(storageDir, 'legacy.jsonl');
+        const legacyPath = path.join(storageDir, 'legacy.json');
+        await fs.writeFile(legacyPath, JSON.stringify({ version: 1, entries: [['a', { value: 'old', expiresAt: null }]] }));
+
+        const store = new FileStore<string>(filePath);
+        assert.equal(await store.get('a'), 'old');
+        await assert.rejects(fs.access(legacyPath));
+        assert.equal(await new FileStore<string>(filePath).get('a'), 'old');
+    });
+});
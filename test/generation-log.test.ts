@@ -0,0 +1,72 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+let storageDir: string;
+let log: typeof import('../src/generation-log.js');
+
+const image = (text: string) => ({ data: Buffer.from(text).toString('base64'), mimeType: 'image/png' });
+
+function newRecord(overrides: Partial<import('../src/generation-log.js').NewGenerationRecord> = {}) {
+    return {
+        startedAt: '2026-01-01T00:00:00.000Z',
+        completedAt: '2026-01-01T00:00:10.000Z',
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+        messageId: 'message-1',
+        userId: 'user-1',
+        prompt: 'a red dragon',
+        isRegeneration: false,
+        outputs: [{ index: 1, hash: log.hashImage(image('output')), mimeType: 'image/png' }],
+        ...overrides
+    };
+}
+
+before(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'generation-log-test-'));
+    Object.assign(process.env, { STORAGE_BACKEND: 'memory', STORAGE_DIR: storageDir });
+    log = await import('../src/generation-log.js');
+});
+
+after(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+});
+
+describe('generation log', () => {
+    test('records generations with reference hashes and restores their inputs', async () => {
+        const reference = image('reference');
+        const record = await log.recordGeneration(newRecord({ preset: 'card-portrait' }), [reference]);
+
+        assert.equal(record.id, 1);
+        assert.deepEqual(record.references, [log.hashImage(reference)]);
+        assert.deepEqual(await log.getGenerationRecord(1), record);
+
+        const inputs = await log.loadGenerationInputs(record);
+        assert.deepEqual(inputs, { references: [reference], variationOf: undefined, missing: 0 });
+
+        const lines = (await fs.readFile(path.join(storageDir, 'generation-log.jsonl'), 'utf8')).trim().split('\n');
+        assert.equal(lines.length, 1);
+        assert.equal(JSON.parse(lines[0]).preset, 'card-portrait');
+    });
+
+    test('searches newest first within a guild, by user and prompt text', async () => {
+        await log.recordGeneration(newRecord({ prompt: 'a blue dragon', userId: 'user-2' }), []);
+        await log.recordGeneration(newRecord({ prompt: 'a castle' }), []);
+        await log.recordGeneration(newRecord({ prompt: 'a dragon egg', guildId: 'guild-2' }), []);
+
+        const all = await log.searchGenerations({ guildId: 'guild-1' });
+        assert.deepEqual(all.records.map(record => record.id), [3, 2, 1]);
+
+        const dragons = await log.searchGenerations({ guildId: 'guild-1', text: 'DRAGON' });
+        assert.deepEqual(dragons.records.map(record => record.prompt), ['a blue dragon', 'a red dragon']);
+
+        const byUser = await log.searchGenerations({ guildId: 'guild-1', userId: 'user-2' });
+        assert.deepEqual(byUser.records.map(record => record.id), [2]);
+
+        const page = await log.searchGenerations({ guildId: 'guild-1' }, 2, 2);
+        assert.equal(page.total, 3);
+        assert.deepEqual(page.records.map(record => record.id), [1]);
+    });
+});
@@ -0,0 +1,92 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+let storageDir: string;
+let generation: typeof import('../src/generation.js');
+let moderation: typeof import('../src/moderation.js');
+let providers: typeof import('../src/providers/index.js');
+
+before(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'generation-test-'));
+    Object.assign(process.env, { STORAGE_BACKEND: 'memory', STORAGE_DIR: storageDir, GOOGLE_API_KEY: 'test-key', IMAGE_PROVIDER: 'gemini' });
+    delete process.env.OPENAI_API_KEY;
+    providers = await import('../src/providers/index.js');
+    moderation = await import('../src/moderation.js');
+    generation = await import('../src/generation.js');
+});
+
+after(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+});
+
+const imageResponse = {
+    candidates: [{ finishReason: 'STOP', content: { parts: [{ inlineData: { data: Buffer.from('image').toString('base64'), mimeType: 'image/png' } }] } }],
+    text: () => '',
+    usageMetadata: { totalTokenCount: 10 }
+};
+
+const blockedResponse = {
+    candidates: [{
+        finishReason: 'IMAGE_SAFETY',
+        content: { parts: [] },
+        safetyRatings: [{ category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', probability: 'HIGH' }]
+    }],
+    text: () => '',
+    usageMetadata: { totalTokenCount: 10 }
+};
+
+/** Make the Gemini provider answer each call with the next of `responses` */
+function fakeGemini(...responses: unknown[]) {
+    let calls = 0;
+    const provider = providers.getImageProvider('gemini')!;
+    (provider as any).genAI = {
+        getGenerativeModel: () => ({ generateContent: async () => ({ response: responses[calls++ % responses.length] }) })
+    };
+}
+
+function fakeTarget(guildId: string) {
+    const updates: unknown[] = [];
+    const target = {
+        guildId,
+        userId: 'user-1',
+        roleIds: [],
+        client: {} as any,
+        channelId: 'channel-1',
+        channel: null,
+        async showStatus() {},
+        async update(update: unknown) {
+            updates.push(update);
+            return { id: `message-${updates.length}`, channelId: 'channel-1' } as any;
+        }
+    };
+    return { target, updates };
+}
+
+describe('generateImages', () => {
+    test('logs a refusal when some variants are blocked and others succeed', async () => {
+        fakeGemini(imageResponse, blockedResponse);
+        const { target } = fakeTarget('guild-partial-block');
+
+        const result = await generation.generateImages(target, { prompt: 'a knight', variantCount: 2 });
+        assert.equal(result?.variants.length, 1);
+
+        const refusals = await moderation.getRecentRefusals('guild-partial-block');
+        assert.equal(refusals.length, 1);
+        assert.deepEqual(
+            [refusals[0].stage, refusals[0].reason, refusals[0].categories, refusals[0].provider],
+            ['output', 'IMAGE_SAFETY', ['sexually explicit'], 'gemini']
+        );
+    });
+
+    test('logs nothing when every variant succeeds', async () => {
+        fakeGemini(imageResponse);
+        const { target } = fakeTarget('guild-no-block');
+
+        const result = await generation.generateImages(target, { prompt: 'a knight', variantCount: 2 });
+        assert.equal(result?.variants.length, 2);
+        assert.deepEqual(await moderation.getRecentRefusals('guild-no-block'), []);
+    });
+});
@@ -0,0 +1,118 @@
+// Shared setup for tests that talk to the mock config backend
+
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { EmbedBuilder } from 'discord.js';
+import { MockBackend, startMockBackend } from '../src/mock-config-backend.js';
+
+export const API_KEY = 'mock-key';
+export const WAF_HEADER = { name: 'x-waf-token', value: 'waf-secret' };
+
+/**
+ * Start a mock backend and point the Dev and Prod environments at it. Must run before the
+ * modules under test are imported, since the environment registry is read once.
+ */
+export async function setupBackend(): Promise<{ backend: MockBackend; storageDir: string }> {
+    const backend = await startMockBackend(0, { apiKey: API_KEY, wafHeader: WAF_HEADER });
+    const storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-test-'));
+
+    Object.assign(process.env, {
+        CONFIG_ENVIRONMENTS: 'Dev,Prod',
+        CONFIG_ENVIRONMENTS_FILE: path.join(storageDir, 'missing-environments.json'),
+        CONFIG_PERMISSIONS_FILE: path.join(storageDir, 'missing-permissions.json'),
+        API_URL_DEV: `${backend.url}/dev`,
+        API_KEY_DEV: API_KEY,
+        API_URL_PROD: `${backend.url}/prod`,
+        API_KEY_PROD: API_KEY,
+        WAF_HEADER_NAME: WAF_HEADER.name,
+        WAF_HEADER_VALUE: WAF_HEADER.value,
+        STORAGE_BACKEND: 'memory',
+        STORAGE_DIR: storageDir
+    });
+
+    return { backend, storageDir };
+}
+
+export async function teardownBackend(backend: MockBackend, storageDir: string): Promise<void> {
+    await backend.close();
+    await fs.rm(storageDir, { recursive: true, force: true });
+}
+
+export interface RecordedCall {
+    method: 'reply' | 'deferReply' | 'editReply' | 'update' | 'confirmation.editReply';
+    payload: any;
+}
+
+export interface FakeInteractionOptions {
+    subcommand: string;
+    options?: Record<string, string | number>;
+    /** Button pressed on a confirmation prompt; omit to time out */
+    button?: 'confirm' | 'cancel';
+    isAdmin?: boolean;
+}
+
+/**
+ * Just enough of a ChatInputCommandInteraction for the /config handlers. Every reply is
+ * recorded in `calls` so tests can assert on what the user would have seen.
+ */
+export function createInteraction({ subcommand, options = {}, button, isAdmin = true }: FakeInteractionOptions) {
+    const calls: RecordedCall[] = [];
+    const user = { id: 'user-1', tag: 'tester#0001', toString: () => '<@user-1>' };
+
+    const confirmation = {
+        customId: button,
+        user,
+        update: async (payload: any) => { calls.push({ method: 'update', payload }); },
+        editReply: async (payload: any) => { calls.push({ method: 'confirmation.editReply', payload }); }
+    };
+
+    const message = {
+        awaitMessageComponent: async ({ filter }: { filter: (i: any) => boolean | Promise<boolean> }) => {
+            if (!button || !(await filter(confirmation))) {
+                throw new Error('Collector received no interactions before ending with reason: time');
+            }
+            return confirmation;
+        }
+    };
+
+    const interaction = {
+        user,
+        member: { roles: [] as string[] },
+        memberPermissions: { has: () => isAdmin },
+        channelId: 'channel-1',
+        client: { channels: { fetch: async () => null } },
+        deferred: false,
+        replied: false,
+        options: {
+            getSubcommand: () => subcommand,
+            getString: (name: string) => (options[name] as string | undefined) ?? null,
+            getInteger: (name: string) => (options[name] as number | undefined) ?? null
+        },
+        deferReply: async (payload?: any) => {
+            interaction.deferred = true;
+            calls.push({ method: 'deferReply', payload });
+        },
+        reply: async (payload: any) => {
+            interaction.replied = true;
+            calls.push({ method: 'reply', payload });
+            return message;
+        },
+        editReply: async (payload: any) => {
+            calls.push({ method: 'editReply', payload });
+            return message;
+        }
+    };
+
+    return { interaction: interaction as any, calls };
+}
+
+/** Plain JSON of the first embed in the most recent call that had one */
+export function lastEmbed(calls: RecordedCall[]) {
+    const call = [...calls].reverse().find(c => c.payload?.embeds?.length);
+    return (call?.payload.embeds[0] as EmbedBuilder | undefined)?.toJSON();
+}
+
+export function lastContent(calls: RecordedCall[]): string | undefined {
+    return [...calls].reverse().find(c => typeof c.payload?.content === 'string')?.payload.content;
+}
@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobCancelledError, JobQueue } from '../src/job-queue.js';
+
+/** A task that runs until released, recording when it starts */
+function blocker(started: string[], id: string) {
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    const task = async (signal: AbortSignal) => {
+        started.push(id);
+        await new Promise<void>((resolve, reject) => {
+            done.then(resolve);
+            signal.addEventListener('abort', () => reject(signal.reason));
+        });
+        return id;
+    };
+    return { task, release };
+}
+
+// The next job starts once the finished one's promise chain has unwound
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('JobQueue', () => {
+    test('serves users in rotation so one burst cannot starve others', async () => {
+        const queue = new JobQueue(1);
+        const started: string[] = [];
+        const jobs = new Map<string, { release: () => void, promise: Promise<string> }>();
+
+        for (const [id, userId] of [['a1', 'alice'], ['a2', 'alice'], ['a3', 'alice'], ['b1', 'bob'], ['c1', 'carol']]) {
+            const job = blocker(started, id);
+            jobs.set(id, { release: job.release, promise: queue.enqueue(id, userId, job.task).promise });
+        }
+        assert.equal(queue.position('a1'), 0);
+        assert.deepEqual(['a2', 'b1', 'c1', 'a3'].map(id => queue.position(id)), [3, 1, 2, 4]);
+
+        for (const id of ['a1', 'b1', 'c1', 'a2', 'a3']) {
+            assert.equal(started.at(-1), id);
+            jobs.get(id)!.release();
+            await jobs.get(id)!.promise;
+            await settle();
+        }
+        assert.deepEqual(started, ['a1', 'b1', 'c1', 'a2', 'a3']);
+    });
+
+    test('cancelling a waiting job removes it and updates positions', async () => {
+        const queue = new JobQueue(1);
+        const started: string[] = [];
+        const first = blocker(started, 'first');
+        const positions: number[] = [];
+
+        const running = queue.enqueue('first', 'alice', first.task).promise;
+        const waiting = queue.enqueue('second', 'bob', blocker(started, 'second').task).promise;
+        const third = blocker(started, 'third');
+        const last = queue.enqueue('third', 'carol', third.task, { onPosition: position => positions.push(position) }).promise;
+
+        assert.equal(queue.cancel('second'), true);
+        await assert.rejects(waiting, JobCancelledError);
+        assert.deepEqual(positions, [2, 1]);
+        assert.equal(queue.owner('second'), null);
+        assert.equal(queue.cancel('second'), false);
+
+        first.release();
+        await running;
+        await settle();
+        third.release();
+        assert.equal(await last, 'third');
+        assert.deepEqual(started, ['first', 'third']);
+    });
+
+    test('cancelling a running job aborts it and starts the next one', async () => {
+        const queue = new JobQueue(1);
+        const started: string[] = [];
+        const next = blocker(started, 'next');
+
+        const running = queue.enqueue('running', 'alice', blocker(started, 'running').task).promise;
+        const queued = queue.enqueue('next', 'bob', next.task).promise;
+
+        assert.equal(queue.cancel('running'), true);
+        await assert.rejects(running, JobCancelledError);
+        await settle();
+        assert.equal(queue.position('next'), 0);
+
+        next.release();
+        assert.equal(await queued, 'next');
+        await settle();
+        assert.deepEqual(queue.size, { running: 0, waiting: 0 });
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitMessage } from '../src/message-split.js';
+
+describe('splitMessage', () => {
+    test('returns short text unchanged', () => {
+        assert.deepEqual(splitMessage('hello'), ['hello']);
+    });
+
+    test('keeps every chunk within the limit and prefers paragraph breaks', () => {
+        const paragraph = 'word '.repeat(30).trim();
+        const text = Array.from({ length: 10 }, () => paragraph).join('\n\n');
+        const chunks = splitMessage(text, 400);
+
+        assert.ok(chunks.length > 1);
+        for (const chunk of chunks) {
+            assert.ok(chunk.length <= 400, `chunk of ${chunk.length} characters`);
+            assert.ok(chunk.endsWith('word'), 'chunk should end at a paragraph break');
+        }
+        assert.equal(chunks.join('\n\n'), text);
+    });
+
+    test('closes and reopens a code block cut in half', () => {
+        const code = Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`).join('\n');
+        const chunks = splitMessage(`Here you go:\n\n\`\`\`ts\n${code}\n\`\`\`\nDone.`, 300);
+
+        assert.ok(chunks.length > 2);
+        for (const chunk of chunks) {
+            assert.ok(chunk.length <= 300);
+            const fences = chunk.split('\n').filter(line => line.startsWith('```')).length;
+            assert.equal(fences % 2, 0, `unbalanced fences in:\n${chunk}`);
+        }
+        assert.ok(chunks[1].startsWith('```ts\n'));
+    });
+
+    test('cuts text without whitespace hard, never splitting a surrogate pair', () => {
+        const chunks = splitMessage('a' + '😀'.repeat(100), 50);
+        for (const chunk of chunks) {
+            assert.ok(chunk.length <= 50);
+            assert.doesNotMatch(chunk, /^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/);
+        }
+        assert.equal(chunks.join(''), 'a' + '😀'.repeat(100));
+    });
+});
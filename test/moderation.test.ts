@@ -0,0 +1,64 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+let storageDir: string;
+let moderation: typeof import('../src/moderation.js');
+
+before(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'moderation-test-'));
+    Object.assign(process.env, { STORAGE_BACKEND: 'memory', STORAGE_DIR: storageDir });
+    moderation = await import('../src/moderation.js');
+});
+
+after(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+});
+
+describe('blocklist terms', () => {
+    test('plain terms match whole words and phrases, case-insensitively', () => {
+        const term = moderation.compileTerm('gore');
+        assert.ok(term.test('lots of GORE here'));
+        assert.ok(!term.test('a gorerous gorilla'));
+
+        const phrase = moderation.compileTerm('real person');
+        assert.ok(phrase.test('a photo of a real   person'));
+        assert.ok(!phrase.test('surreal personality'));
+    });
+
+    test('slash-delimited terms are regular expressions', () => {
+        assert.ok(moderation.compileTerm('/celeb(rity)?s?/').test('two celebrities'));
+        assert.match(moderation.validateTerm('/[unclosed/') ?? '', /Invalid regular expression/);
+        assert.equal(moderation.validateTerm('fine'), null);
+    });
+
+    test('screens prompts against the guild\'s own list only', async () => {
+        await moderation.updateModerationSettings('guild-1', settings => ({ ...settings, blockedTerms: ['gore', '/nsfw/'] }));
+
+        assert.equal(await moderation.screenPrompt('guild-1', 'a NSFW knight'), '/nsfw/');
+        assert.equal(await moderation.screenPrompt('guild-1', 'a friendly knight'), null);
+        assert.equal(await moderation.screenPrompt('guild-2', 'lots of gore'), null);
+        assert.equal(await moderation.screenPrompt(null, 'lots of gore'), null);
+    });
+});
+
+describe('refusal log', () => {
+    test('appends refusals and lists them newest first per guild and user', async () => {
+        const base = { channelId: 'channel-1', prompt: 'p', categories: [] };
+        await moderation.appendRefusal({ ...base, guildId: 'guild-1', userId: 'user-1', stage: 'blocklist', reason: 'gore' });
+        await moderation.appendRefusal({ ...base, guildId: 'guild-1', userId: 'user-2', stage: 'prompt', reason: 'SAFETY', provider: 'gemini' });
+        await moderation.appendRefusal({ ...base, guildId: 'guild-2', userId: 'user-1', stage: 'output', reason: 'IMAGE_SAFETY' });
+
+        const recent = await moderation.getRecentRefusals('guild-1');
+        assert.deepEqual(recent.map(refusal => refusal.id), [2, 1]);
+        assert.equal(moderation.formatRefusalReason(recent[0]), 'gemini prompt block: SAFETY');
+
+        const byUser = await moderation.getRecentRefusals('guild-1', 10, 'user-1');
+        assert.deepEqual(byUser.map(refusal => refusal.reason), ['gore']);
+
+        const lines = (await fs.readFile(path.join(storageDir, 'moderation-refusals.jsonl'), 'utf8')).trim().split('\n');
+        assert.equal(lines.length, 3);
+    });
+});
@@ -0,0 +1,60 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+let presets: typeof import('../src/prompt-presets.js');
+
+before(async () => {
+    process.env.STORAGE_BACKEND = 'memory';
+    presets = await import('../src/prompt-presets.js');
+});
+
+describe('extractPresetName', () => {
+    test('finds the preset in any of the accepted forms and strips it', () => {
+        assert.deepEqual(presets.extractPresetName('preset:emoji a happy cat'), { name: 'emoji', text: 'a happy cat' });
+        assert.deepEqual(presets.extractPresetName('a knight --preset Card-Portrait in armour'), { name: 'card-portrait', text: 'a knight in armour' });
+        assert.deepEqual(presets.extractPresetName('a dragon preset=banner'), { name: 'banner', text: 'a dragon' });
+    });
+
+    test('leaves text without a preset untouched', () => {
+        assert.deepEqual(presets.extractPresetName('what is a preset?'), { text: 'what is a preset?' });
+    });
+});
+
+describe('resolvePreset', () => {
+    test('prefers the named preset, then the guild default', async () => {
+        assert.equal(await presets.resolvePreset('guild-1'), undefined);
+
+        await presets.setDefaultPreset('guild-1', 'emoji');
+        assert.equal((await presets.resolvePreset('guild-1'))?.name, 'emoji');
+        assert.equal((await presets.resolvePreset('guild-1', 'banner'))?.name, 'banner');
+        assert.equal(await presets.resolvePreset('guild-2'), undefined);
+    });
+
+    test('custom presets shadow built-ins for their guild only', async () => {
+        await presets.definePreset('guild-1', {
+            name: 'Banner',
+            description: 'Our banner',
+            template: 'Server banner for {prompt}',
+            aspectRatio: '3:2',
+            variantCount: 1,
+            createdBy: 'user-1'
+        });
+
+        const custom = await presets.getPreset('guild-1', 'banner');
+        assert.equal(custom?.aspectRatio, '3:2');
+        assert.equal(presets.renderPresetInstructions(custom!, 'a castle'), 'Server banner for a castle');
+        assert.equal((await presets.getPreset('guild-2', 'banner'))?.aspectRatio, '16:9');
+
+        assert.equal(await presets.deletePreset('guild-1', 'banner'), true);
+        assert.equal(await presets.deletePreset('guild-1', 'banner'), false);
+        assert.equal((await presets.getPreset('guild-1', 'banner'))?.aspectRatio, '16:9');
+    });
+});
+
+describe('usesPromptPlaceholder', () => {
+    test('tells templates that embed the prompt from ones that only wrap it', async () => {
+        const emoji = await presets.getPreset(null, 'emoji');
+        assert.equal(presets.usesPromptPlaceholder({ ...emoji!, template: 'Sticker of {prompt}, flat colours' }), true);
+        assert.equal(presets.usesPromptPlaceholder({ ...emoji!, template: 'Flat colour sticker art' }), false);
+    });
+});
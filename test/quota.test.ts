@@ -0,0 +1,119 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+let quota: typeof import('../src/quota.js');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+before(async () => {
+    Object.assign(process.env, {
+        STORAGE_BACKEND: 'memory',
+        QUOTA_USER_DAILY_IMAGES: '4',
+        QUOTA_USER_MONTHLY_IMAGES: '10',
+        QUOTA_GUILD_DAILY_IMAGES: '-1',
+        QUOTA_GUILD_MONTHLY_IMAGES: '-1'
+    });
+    quota = await import('../src/quota.js');
+});
+
+function subject(userId: string, guildId: string = 'guild-1', roleIds: string[] = []) {
+    return { guildId, userId, roleIds };
+}
+
+/** Run `fn` with Date.now() shifted forward by `offsetMs` */
+async function later<T>(offsetMs: number, fn: () => Promise<T>): Promise<T> {
+    const realNow = Date.now;
+    Date.now = () => realNow() + offsetMs;
+    try {
+        return await fn();
+    } finally {
+        Date.now = realNow;
+    }
+}
+
+describe('quota windows', () => {
+    test('the daily limit rejects requests until the window rolls over', async () => {
+        const user = subject('daily-user');
+        await quota.recordUsage(user, { images: 3, tokens: 0 });
+
+        assert.equal((await quota.checkQuota(user, { images: 1, tokens: 0 })).allowed, true);
+        const rejected = await quota.checkQuota(user, { images: 2, tokens: 0 });
+        assert.equal(rejected.allowed, false);
+        assert.match(rejected.reason!, /daily quota is exhausted \(3\/4 images used, 2 requested\)/);
+
+        const nextDay = await later(DAY_MS + 1000, () => quota.checkQuota(user, { images: 2, tokens: 0 }));
+        assert.equal(nextDay.allowed, true);
+    });
+
+    test('the monthly limit still applies once daily usage has rolled off', async () => {
+        const user = subject('monthly-user');
+        for (let day = 0; day < 3; day++) {
+            await later(day * DAY_MS, () => quota.recordUsage(user, { images: 3, tokens: 0 }));
+        }
+
+        const check = await later(4 * DAY_MS, () => quota.checkQuota(user, { images: 2, tokens: 0 }));
+        assert.equal(check.allowed, false);
+        assert.match(check.reason!, /monthly quota is exhausted \(9\/10 images used/);
+    });
+
+    test('configuring one window keeps the default for the other', async () => {
+        const guildId = 'guild-partial';
+        await quota.updateGuildQuotaConfig(guildId, config => {
+            config.user = { daily: { images: 100 } };
+        });
+
+        const user = subject('partial-user', guildId);
+        await quota.recordUsage(user, { images: 10, tokens: 0 });
+        const check = await quota.checkQuota(user, { images: 1, tokens: 0 });
+        assert.equal(check.allowed, false);
+        assert.match(check.reason!, /monthly/);
+    });
+
+    test('a role that sets only tokens keeps the user image limit for that window', async () => {
+        const guildId = 'guild-role-fields';
+        await quota.updateGuildQuotaConfig(guildId, config => {
+            config.user = { daily: { images: 2 } };
+            config.roles = { 'role-tokens': { daily: { tokens: 1000 } } };
+        });
+
+        const member = subject('role-fields-user', guildId, ['role-tokens']);
+        const [daily] = await quota.getUsageReport(member);
+        assert.deepEqual(daily.limit, { images: 2, tokens: 1000 });
+        assert.equal((await quota.checkQuota(member, { images: 3, tokens: 0 })).allowed, false);
+    });
+
+    test('a null field removes the inherited limit', async () => {
+        const guildId = 'guild-unlimited';
+        await quota.updateGuildQuotaConfig(guildId, config => {
+            config.user = { daily: { images: null } };
+        });
+
+        const user = subject('unlimited-user', guildId);
+        const [daily, monthly] = await quota.getUsageReport(user);
+        assert.equal(daily.limit.images, undefined);
+        assert.equal(monthly.limit.images, 10);
+    });
+
+    test('reservations count against the budget until they are settled', async () => {
+        const user = subject('reserving-user');
+        const first = await quota.reserveQuota(user, { images: 3, tokens: 0 });
+        assert.equal(first.allowed, true);
+
+        const second = await quota.reserveQuota(user, { images: 3, tokens: 0 });
+        assert.equal(second.allowed, false);
+
+        await quota.settleReservation(first.reservation!, { images: 0, tokens: 0 });
+        const third = await quota.reserveQuota(user, { images: 3, tokens: 0 });
+        assert.equal(third.allowed, true);
+
+        await quota.settleReservation(third.reservation!, { images: 1, tokens: 50 });
+        const [daily] = await quota.getUsageReport(user);
+        assert.deepEqual(daily.used, { images: 1, tokens: 50 });
+    });
+
+    test('concurrent reservations cannot overrun the limit', async () => {
+        const user = subject('burst-user');
+        const checks = await Promise.all(Array.from({ length: 5 }, () => quota.reserveQuota(user, { images: 1, tokens: 0 })));
+        assert.equal(checks.filter(check => check.allowed).length, 4);
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { Message, StickerFormatType } from 'discord.js';
+import { collectImageSources, downloadWithLimits, ingestReferenceImages, normalizeImage } from '../src/reference-images.js';
+
+function solidImage(width: number, height: number) {
+    return sharp({ create: { width, height, channels: 3, background: '#3366cc' } });
+}
+
+function fakeMessage(fields: { content?: string; attachments?: any[]; embeds?: any[]; stickers?: any[] }): Message {
+    return {
+        content: fields.content ?? '',
+        attachments: new Map((fields.attachments ?? []).map((attachment, i) => [String(i), attachment])),
+        embeds: fields.embeds ?? [],
+        stickers: new Map((fields.stickers ?? []).map((sticker, i) => [String(i), sticker]))
+    } as unknown as Message;
+}
+
+describe('normalizeImage', () => {
+    test('passes small PNGs through untouched', async () => {
+        const png = await solidImage(64, 64).png().toBuffer();
+        const image = await normalizeImage(png);
+        assert.equal(image.mimeType, 'image/png');
+        assert.equal(image.data, png.toString('base64'));
+    });
+
+    test('converts GIF and WebP to PNG', async () => {
+        for (const input of [await solidImage(32, 32).gif().toBuffer(), await solidImage(32, 32).webp().toBuffer()]) {
+            const image = await normalizeImage(input);
+            assert.equal(image.mimeType, 'image/png');
+            assert.equal((await sharp(Buffer.from(image.data, 'base64')).metadata()).format, 'png');
+        }
+    });
+
+    test('downscales oversized images to the maximum dimension', async () => {
+        const large = await solidImage(4096, 1024).jpeg().toBuffer();
+        const metadata = await sharp(Buffer.from((await normalizeImage(large)).data, 'base64')).metadata();
+        assert.deepEqual([metadata.width, metadata.height], [2048, 512]);
+    });
+
+    test('rejects data that is not an image', async () => {
+        await assert.rejects(normalizeImage(Buffer.from('definitely not an image')), /not a supported image/);
+    });
+});
+
+describe('collectImageSources', () => {
+    test('finds attachments, embeds, stickers, custom emoji and image links, once each', () => {
+        const sources = collectImageSources(fakeMessage({
+            content: 'like <:pepe:123> and https://example.com/art/cat.webp?size=2 but not https://example.com/page',
+            attachments: [
+                { url: 'https://cdn.discordapp.com/a/ref.png?ex=1', name: 'ref.png', contentType: 'image/png', size: 100 },
+                { url: 'https://cdn.discordapp.com/a/notes.txt', name: 'notes.txt', contentType: 'text/plain', size: 10 }
+            ],
+            embeds: [
+                { image: { url: 'https://cdn.discordapp.com/a/ref.png?ex=2' } },
+                { thumbnail: { url: 'https://example.com/preview.jpg' }, title: 'Preview' }
+            ],
+            stickers: [
+                { url: 'https://media.discordapp.net/stickers/1.png', name: 'wave', format: StickerFormatType.PNG },
+                { url: 'https://media.discordapp.net/stickers/2.json', name: 'dance', format: StickerFormatType.Lottie }
+            ]
+        }));
+
+        assert.deepEqual(sources.map(source => [source.origin, source.name]), [
+            ['attachment', 'ref.png'],
+            ['embed', 'Preview'],
+            ['sticker', 'sticker wave'],
+            ['emoji', ':pepe:'],
+            ['link', 'cat.webp']
+        ]);
+        assert.equal(sources[3].url, 'https://cdn.discordapp.com/emojis/123.png');
+    });
+});
+
+describe('ingestReferenceImages', () => {
+    test('skips oversized and surplus sources with a reason', async () => {
+        const { images, skipped } = await ingestReferenceImages([
+            { url: 'https://example.invalid/a.png', name: 'a.png', origin: 'attachment', size: 50 * 1024 * 1024 },
+            { url: 'https://example.invalid/b.png', name: 'b.png', origin: 'attachment', size: 10 },
+            { url: 'https://example.invalid/c.png', name: 'c.png', origin: 'attachment', size: 10 }
+        ], { maxCount: 1, maxBytes: 1024 * 1024 });
+
+        assert.equal(images.length, 0);
+        assert.equal(skipped.length, 3);
+        assert.match(skipped[0], /a\.png.*larger than 1 MB/);
+        assert.match(skipped[1], /c\.png.*over the limit of 1 images/);
+        assert.match(skipped[2], /b\.png.*couldn't be used/);
+    });
+
+    test('refuses links to private hosts and non-https URLs', async () => {
+        await assert.rejects(downloadWithLimits('https://127.0.0.1/image.png'), /not reachable/);
+        await assert.rejects(downloadWithLimits('https://[::1]/image.png'), /not reachable/);
+        await assert.rejects(downloadWithLimits('https://[::ffff:127.0.0.1]:1/image.png'), /not reachable/);
+        await assert.rejects(downloadWithLimits('https://[::ffff:a00:1]/image.png'), /not reachable/);
+        await assert.rejects(downloadWithLimits('https://198.18.0.1/image.png'), /not reachable/);
+        await assert.rejects(downloadWithLimits('https://255.255.255.255/image.png'), /not reachable/);
+        await assert.rejects(downloadWithLimits('http://example.com/image.png'), /only https/);
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withRetry } from '../src/providers/retry.js';
+import {
+    AuthenticationError,
+    InvalidRequestError,
+    ModelNotFoundError,
+    NetworkError,
+    RateLimitError,
+    SafetyBlockedError,
+    ServerError,
+    toProviderError
+} from '../src/providers/index.js';
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 5 };
+
+/** A task that throws each of `errors` in turn, then succeeds */
+function failing(...errors: Error[]) {
+    let calls = 0;
+    const task = async () => {
+        const error = errors[calls++];
+        if (error) throw error;
+        return 'ok';
+    };
+    return { task, calls: () => calls };
+}
+
+describe('withRetry', () => {
+    test('retries transient errors until the task succeeds', async () => {
+        const { task, calls } = failing(
+            new RateLimitError('slow down', 'gemini', 'model', 429),
+            new ServerError('oops', 'gemini', 'model', 503),
+            new NetworkError('fetch failed', 'gemini', 'model')
+        );
+        assert.equal(await withRetry(task, FAST), 'ok');
+        assert.equal(calls(), 4);
+    });
+
+    test('gives up after maxRetries and throws the last error', async () => {
+        const errors = Array.from({ length: 5 }, (_, i) => new ServerError(`failure ${i}`, 'openai', 'model', 500));
+        const { task, calls } = failing(...errors);
+        await assert.rejects(withRetry(task, { ...FAST, maxRetries: 2 }), { message: 'failure 2' });
+        assert.equal(calls(), 3);
+    });
+
+    test('does not retry permanent errors', async () => {
+        for (const error of [
+            new AuthenticationError('bad key', 'openai', 'model', 401),
+            new InvalidRequestError('bad request', 'openai', 'model', 400),
+            new SafetyBlockedError('blocked', 'openai', 'model', { stage: 'prompt', reason: 'moderation_blocked', categories: [] }),
+            new Error('not a provider error')
+        ]) {
+            const { task, calls } = failing(error);
+            await assert.rejects(withRetry(task, FAST), error);
+            assert.equal(calls(), 1);
+        }
+    });
+
+    test('waits at least the delay the provider asked for, up to maxDelayMs', async () => {
+        const rateLimit = new RateLimitError('slow down', 'gemini', 'model', 429);
+        rateLimit.retryAfterMs = 60;
+        const { task } = failing(rateLimit);
+
+        const started = Date.now();
+        await withRetry(task, { baseDelayMs: 1, maxDelayMs: 200 });
+        assert.ok(Date.now() - started >= 55);
+    });
+
+    test('stops waiting when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const { task, calls } = failing(new ServerError('oops', 'gemini', 'model', 503));
+        const reason = new Error('cancelled');
+
+        const pending = withRetry(task, { baseDelayMs: 10_000, maxDelayMs: 10_000, signal: controller.signal });
+        setTimeout(() => controller.abort(reason), 10);
+        await assert.rejects(pending, reason);
+        assert.equal(calls(), 1);
+    });
+});
+
+describe('toProviderError', () => {
+    test('classifies SDK errors by status and message', () => {
+        const classify = (error: any) => toProviderError(error, 'gemini', 'model');
+
+        const rateLimit = classify({ status: 429, message: 'Too Many Requests', errorDetails: [{ retryDelay: '30s' }] });
+        assert.ok(rateLimit instanceof RateLimitError);
+        assert.equal(rateLimit.retryAfterMs, 30_000);
+
+        assert.ok(classify(new Error('[GoogleGenerativeAI Error]: [503 Service Unavailable]')) instanceof ServerError);
+        assert.ok(classify({ status: 403, message: 'forbidden' }) instanceof AuthenticationError);
+        assert.ok(classify({ status: 404, message: 'no such model' }) instanceof ModelNotFoundError);
+        assert.ok(classify({ status: 400, message: 'bad', code: 'moderation_blocked' }) instanceof SafetyBlockedError);
+        assert.ok(classify({ message: 'socket hang up', code: 'ECONNRESET' }) instanceof NetworkError);
+    });
+
+    test('leaves abort errors untouched so cancellation is never retried', () => {
+        const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+        assert.equal(toProviderError(abort, 'openai', 'model'), abort);
+    });
+});
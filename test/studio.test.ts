@@ -0,0 +1,84 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+let studio: typeof import('../src/studio.js');
+
+const image = (data: string) => ({ data, mimeType: 'image/png' });
+
+function newSession() {
+    return studio.createSession({
+        threadId: 'thread-1',
+        guildId: 'guild-1',
+        ownerId: 'user-1',
+        basePrompt: 'a castle on a hill',
+        baseImage: image('base')
+    });
+}
+
+function edit(session: ReturnType<typeof newSession>, instruction: string, variants: string[]) {
+    return studio.addStep(session, {
+        parentId: session.headStepId,
+        instruction,
+        userId: 'user-1',
+        createdAt: new Date().toISOString(),
+        messageId: `message-${instruction}`,
+        variants: variants.map(image)
+    });
+}
+
+before(async () => {
+    process.env.STORAGE_BACKEND = 'memory';
+    studio = await import('../src/studio.js');
+});
+
+describe('studio history', () => {
+    test('each edit builds on the chosen variant of the previous step', () => {
+        let session = newSession();
+        assert.equal(studio.getHeadImage(session).data, 'base');
+
+        session = edit(session, 'make it night', ['night-1', 'night-2']);
+        assert.equal(studio.getHeadImage(session).data, 'night-1');
+
+        session = studio.chooseVariant(session, 1, 2)!;
+        assert.equal(studio.getHeadImage(session).data, 'night-2');
+        assert.equal(studio.chooseVariant(session, 1, 3), null);
+
+        session = edit(session, 'add a moon', ['moon-1']);
+        assert.deepEqual(studio.getLineage(session).map(step => step.instruction), ['make it night', 'add a moon']);
+    });
+
+    test('undo and goto move the head, and the next edit branches from there', () => {
+        let session = edit(edit(newSession(), 'make it night', ['night']), 'add a moon', ['moon']);
+
+        session = studio.stepBack(session)!;
+        assert.equal(session.headStepId, 1);
+        session = edit(session, 'add fireworks', ['fireworks']);
+
+        assert.equal(studio.getStep(session, 3)?.parentId, 1);
+        assert.deepEqual(studio.getLineage(session).map(step => step.id), [1, 3]);
+        assert.deepEqual(studio.getLineage(session, 2).map(step => step.id), [1, 2]);
+
+        session = studio.goToStep(session, 0)!;
+        assert.equal(studio.getHeadImage(session).data, 'base');
+        assert.equal(studio.stepBack(session), null);
+        assert.equal(studio.goToStep(session, 9), null);
+    });
+
+    test('edit instructions describe the base prompt and the applied edits', () => {
+        const session = edit(edit(newSession(), 'make it night', ['night']), 'add a moon', ['moon']);
+        const instructions = studio.buildEditInstructions(studio.stepBack(session)!);
+
+        assert.match(instructions, /"a castle on a hill"/);
+        assert.match(instructions, /1\. make it night/);
+        assert.doesNotMatch(instructions, /add a moon/);
+    });
+});
+
+describe('parseStudioCommand', () => {
+    test('recognises commands and treats anything else as an edit', () => {
+        assert.deepEqual(studio.parseStudioCommand(' Undo '), { type: 'undo' });
+        assert.deepEqual(studio.parseStudioCommand('branch #2'), { type: 'goto', stepId: 2 });
+        assert.deepEqual(studio.parseStudioCommand('goto 0'), { type: 'goto', stepId: 0 });
+        assert.deepEqual(studio.parseStudioCommand('export the sky as red'), { type: 'edit', instruction: 'export the sky as red' });
+    });
+});